@@ -0,0 +1,69 @@
+/**
+ * Authorship carried from the original commit onto its split commits
+ *
+ * Split commits keep the original author name, email and date, get the
+ * chosen trailers (Signed-off-by, Co-authored-by, ...) of the original
+ * message, and are signed according to -S / commit.gpgsign.
+ */
+
+import { runGit } from './git.js';
+import type { CommitMetadata } from './types.js';
+
+/**
+ * Resolve the signing policy: an explicit -S/--no-gpg-sign flag wins,
+ * otherwise commit.gpgsign decides
+ */
+export function resolveSigning(flag?: boolean | string): boolean | string {
+  if (flag !== undefined) return flag;
+  const { ok, output } = runGit(['config', '--bool', 'commit.gpgsign']);
+  return ok && output === 'true';
+}
+
+/**
+ * Read the author and chosen trailers of `hash` (none for staged changes)
+ */
+export function getCommitMetadata(hash: string | null, trailerKeys: string[], sign: boolean | string): CommitMetadata {
+  if (!hash) return { trailers: [], sign };
+
+  const { ok, output } = runGit(['log', '-1', '--format=%an%n%ae%n%ad', '--date=raw', hash]);
+  const [name, email, date] = output.split('\n');
+  const author = ok ? { name, email, date } : undefined;
+
+  const keys = new Set(trailerKeys.map(k => k.toLowerCase()));
+  const { output: trailerOut } = runGit(['log', '-1', '--format=%(trailers:only,unfold)', hash]);
+  const trailers = trailerOut.split('\n').filter(line => keys.has(line.split(':')[0].trim().toLowerCase()));
+
+  return { author, trailers, sign };
+}
+
+/**
+ * Add the trailers to a message, skipping any it already has
+ */
+export function withTrailers(message: string, trailers: string[]): string {
+  if (!trailers.length) return message;
+  const { ok, output } = runGit(
+    ['interpret-trailers', '--if-exists', 'addIfDifferent', ...trailers.flatMap(t => ['--trailer', t])],
+    { input: message.trimEnd() + '\n' }
+  );
+  return ok ? output : `${message.trimEnd()}\n\n${trailers.join('\n')}`;
+}
+
+/**
+ * Environment that makes git record the original author
+ */
+export function authorEnv(metadata: CommitMetadata): Record<string, string> | undefined {
+  const { author } = metadata;
+  return author && {
+    GIT_AUTHOR_NAME: author.name,
+    GIT_AUTHOR_EMAIL: author.email,
+    GIT_AUTHOR_DATE: author.date,
+  };
+}
+
+/**
+ * Signing arguments for commit, commit-tree and cherry-pick
+ */
+export function signArgs(sign: boolean | string): string[] {
+  if (typeof sign === 'string') return [`-S${sign}`];
+  return sign ? ['-S'] : ['--no-gpg-sign'];
+}
@@ -0,0 +1,205 @@
+/**
+ * Backups of the original history before a split
+ *
+ * Each split saves the branch tip under refs/fission/backup/<id> before
+ * anything is reset, plus a small metadata file describing the split,
+ * so it can be listed and undone without digging through the reflog.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { c } from './config.js';
+import { runGit, getGitDir } from './git.js';
+import { loadReplayState } from './replay.js';
+import { ask } from './prompt.js';
+import type { CommitInfo } from './types.js';
+
+const BACKUP_REF_PREFIX = 'refs/fission/backup/';
+
+/**
+ * Metadata stored alongside a backup ref
+ */
+export interface BackupInfo {
+  id: string;
+  branch: string;           // Branch that was rewritten ('HEAD' if detached)
+  originalHead: string;     // Branch tip before the split (what the ref points to)
+  commit: string;           // The commit that was split
+  message: string;          // Its original message
+  createdAt: string;
+  splitInto: Array<{ hash: string; message: string }>;
+  resultHead?: string;      // Branch tip after the split, once it completed
+  action?: 'split' | 'reword';  // What rewrote the branch (a split if missing)
+}
+
+const ACTION_VERBS = { split: 'splitting', reword: 'rewording' };
+
+function getBackupDir(): string | null {
+  const gitDir = getGitDir();
+  return gitDir ? path.join(gitDir, 'fission', 'backups') : null;
+}
+
+function saveBackupInfo(info: BackupInfo): void {
+  const dir = getBackupDir();
+  if (!dir) return;
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, `${info.id}.json`), JSON.stringify(info, null, 2));
+}
+
+function loadBackupInfo(id: string): BackupInfo | null {
+  const dir = getBackupDir();
+  if (!dir) return null;
+  const file = path.join(dir, `${id}.json`);
+  if (!fs.existsSync(file)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the current branch tip before a split (or reword) rewrites it.
+ * Returns the backup ID, or null if the ref could not be written.
+ */
+export function createBackup(commit: CommitInfo, originalHead: string, branch: string, action: 'split' | 'reword' = 'split'): string | null {
+  let id = new Date().toISOString().replace(/[-:]/g, '').replace(/\..*$/, '');
+  const { ok: exists } = runGit(['rev-parse', '--verify', '--quiet', BACKUP_REF_PREFIX + id]);
+  if (exists) id += `-${commit.shortHash}`;
+
+  const { ok, output } = runGit(['update-ref', '-m', `git-fission: backup before ${ACTION_VERBS[action]} ${commit.shortHash}`, BACKUP_REF_PREFIX + id, originalHead]);
+  if (!ok) {
+    console.log(`${c.red}Error: Failed to create backup ref: ${output}${c.reset}`);
+    return null;
+  }
+
+  saveBackupInfo({
+    id,
+    branch,
+    originalHead,
+    commit: commit.hash,
+    message: commit.message,
+    createdAt: new Date().toISOString(),
+    splitInto: [],
+    action,
+  });
+  console.log(`${c.dim}Saved backup ${id} (undo with: git-fission --undo ${id})${c.reset}`);
+  return id;
+}
+
+/**
+ * Record the commits a backed-up commit was split into
+ */
+export function recordSplitResult(id: string, splitHashes: string[], resultHead?: string): void {
+  const info = loadBackupInfo(id);
+  if (!info) return;
+
+  info.splitInto = splitHashes.map(hash => {
+    const { output: message } = runGit(['log', '-1', '--format=%s', hash]);
+    return { hash, message };
+  });
+  info.resultHead = resultHead;
+  saveBackupInfo(info);
+}
+
+/**
+ * Record where the branch ended up once a replay stopped by a conflict is
+ * finished with --continue
+ */
+export function recordResultHead(id: string, resultHead: string): void {
+  const info = loadBackupInfo(id);
+  if (!info) return;
+  info.resultHead = resultHead;
+  saveBackupInfo(info);
+}
+
+/**
+ * Get all backups, newest first
+ */
+export function getBackups(): BackupInfo[] {
+  const { ok, output } = runGit(['for-each-ref', '--sort=-refname', '--format=%(refname)%09%(objectname)', BACKUP_REF_PREFIX]);
+  if (!ok || !output) return [];
+
+  return output.split('\n').map(line => {
+    const [ref, hash] = line.split('\t');
+    const id = ref.slice(BACKUP_REF_PREFIX.length);
+    return loadBackupInfo(id) || {
+      id,
+      branch: '?',
+      originalHead: hash,
+      commit: hash,
+      message: '(no metadata)',
+      createdAt: '',
+      splitInto: [],
+    };
+  });
+}
+
+export function printBackups(): void {
+  const backups = getBackups();
+  if (!backups.length) {
+    console.log(`${c.dim}No backups found.${c.reset}`);
+    return;
+  }
+
+  console.log(`${c.bold}Split backups (newest first):${c.reset}`);
+  for (const backup of backups) {
+    console.log(`\n  ${c.cyan}${backup.id}${c.reset} ${c.dim}on ${backup.branch}${c.reset}`);
+    console.log(`    ${c.blue}${backup.commit.slice(0, 8)}${c.reset} ${backup.message}`);
+    const reword = backup.action === 'reword';
+    if (backup.splitInto.length) {
+      console.log(`    ${c.dim}${reword ? 'reworded as' : 'split into'}:${c.reset}`);
+      backup.splitInto.forEach(s => console.log(`      ${c.blue}${s.hash.slice(0, 8)}${c.reset} ${s.message}`));
+    } else {
+      console.log(`    ${c.dim}(${reword ? 'reword' : 'split'} did not complete)${c.reset}`);
+    }
+  }
+}
+
+/**
+ * Restore the branch to the state saved in a backup (the newest one by default)
+ */
+export async function restoreBackup(id?: string): Promise<boolean> {
+  const backups = getBackups();
+  const backup = id ? backups.find(b => b.id === id) : backups[0];
+  if (!backup) {
+    console.log(`${c.red}Error: ${id ? `No backup named ${id}` : 'No backups found'}${c.reset}`);
+    return false;
+  }
+
+  if (loadReplayState()) {
+    console.log(`${c.red}Error: A split is in progress. Use --abort instead.${c.reset}`);
+    return false;
+  }
+
+  const { output: branch } = runGit(['rev-parse', '--abbrev-ref', 'HEAD']);
+  if (branch !== backup.branch) {
+    console.log(`${c.red}Error: Backup ${backup.id} is for ${backup.branch}, but ${branch} is checked out.${c.reset}`);
+    return false;
+  }
+
+  const { output: status } = runGit(['status', '--porcelain']);
+  if (status.trim()) {
+    console.log(`${c.red}Error: Working directory has uncommitted changes.${c.reset}`);
+    return false;
+  }
+
+  // Commits made after the split would be lost by the reset
+  const { output: head } = runGit(['rev-parse', 'HEAD']);
+  if (backup.resultHead && head !== backup.resultHead) {
+    const { output: extra } = runGit(['rev-list', '--count', `${backup.resultHead}..HEAD`]);
+    const answer = await ask(`${c.yellow}${branch} has moved since the split${extra !== '0' ? ` (${extra} new commit(s) will be discarded)` : ''}.${c.reset}\nRestore anyway? [y/N] `);
+    if (answer.toLowerCase() !== 'y') {
+      console.log('Aborted.');
+      return false;
+    }
+  }
+
+  const { ok, output } = runGit(['reset', '--hard', BACKUP_REF_PREFIX + backup.id]);
+  if (!ok) {
+    console.log(`${c.red}Error: Failed to restore backup: ${output}${c.reset}`);
+    return false;
+  }
+
+  console.log(`${c.green}✓ Restored ${branch} to ${backup.originalHead.slice(0, 8)}${c.reset} (before ${ACTION_VERBS[backup.action ?? 'split']} ${backup.commit.slice(0, 8)} ${backup.message.slice(0, 50)})`);
+  return true;
+}
@@ -0,0 +1,116 @@
+/**
+ * On-disk cache of LLM responses
+ *
+ * Parsed responses are stored under .git/fission/cache, keyed by a hash of
+ * the diff, provider, model, instruction and prompt version. Repeating a
+ * request (e.g. --split after --split --dry-run) reuses the cached answer,
+ * so no second paid call is made and the plan is exactly the one previewed.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { c } from './config.js';
+import { getGitDir } from './git.js';
+import type { LLMConfig } from './types.js';
+
+// Bump when a prompt or the shape of a cached response changes
+const PROMPT_VERSION = 3;
+
+interface CacheEntry<T> {
+  version: number;
+  kind: string;
+  createdAt: string;
+  value: T;
+}
+
+function getCacheDir(): string | null {
+  const gitDir = getGitDir();
+  return gitDir ? path.join(gitDir, 'fission', 'cache') : null;
+}
+
+/**
+ * Build a cache key for one kind of LLM request. `extra` holds any other
+ * input that changes the prompt (feedback, limits, ...).
+ */
+export function cacheKey(
+  kind: string,
+  config: LLMConfig,
+  diff: string,
+  instruction?: string,
+  extra: Record<string, unknown> = {}
+): string {
+  const diffHash = createHash('sha256').update(diff).digest('hex');
+  return createHash('sha256')
+    .update(JSON.stringify([PROMPT_VERSION, kind, config.provider, config.model, config.baseUrl ?? '', instruction ?? '', diffHash, extra]))
+    .digest('hex');
+}
+
+/**
+ * Read a cached response, or null on a miss (or when caching is off)
+ */
+export function readCache<T>(key: string, config: LLMConfig): T | null {
+  if (config.cache === false) return null;
+  const dir = getCacheDir();
+  if (!dir) return null;
+
+  const file = path.join(dir, `${key}.json`);
+  if (!fs.existsSync(file)) return null;
+  try {
+    const entry: CacheEntry<T> = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return entry.version === PROMPT_VERSION ? entry.value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store a parsed response. Written even with --no-cache, so a fresh
+ * answer replaces the stale one.
+ */
+export function writeCache<T>(key: string, kind: string, value: T): void {
+  const dir = getCacheDir();
+  if (!dir) return;
+
+  const entry: CacheEntry<T> = { version: PROMPT_VERSION, kind, createdAt: new Date().toISOString(), value };
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, `${key}.json`), JSON.stringify(entry));
+  } catch {
+    // A cache that can't be written just means a repeated call later
+  }
+}
+
+/**
+ * Note that a cached response was used instead of calling the LLM
+ */
+export function printCacheHit(): void {
+  console.error(`  ${c.dim}Using cached LLM response (--no-cache to ask again)${c.reset}`);
+}
+
+/**
+ * Delete cache entries older than `maxAgeDays` (all of them if 0)
+ */
+export function pruneCache(maxAgeDays: number): void {
+  const dir = getCacheDir();
+  if (!dir || !fs.existsSync(dir)) {
+    console.log(`${c.dim}Cache is empty.${c.reset}`);
+    return;
+  }
+
+  const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+  let removed = 0, kept = 0, freed = 0;
+  for (const name of fs.readdirSync(dir)) {
+    const file = path.join(dir, name);
+    const stat = fs.statSync(file);
+    if (maxAgeDays > 0 && stat.mtimeMs >= cutoff) {
+      kept++;
+      continue;
+    }
+    fs.rmSync(file, { force: true });
+    removed++;
+    freed += stat.size;
+  }
+
+  console.log(`${c.green}✓${c.reset} Removed ${removed} cached response(s) (${(freed / 1024).toFixed(0)}KB), ${kept} kept`);
+}
@@ -1,49 +1,118 @@
 /**
- * Atomicity checking functions (LLM-only)
+ * Atomicity checking functions
+ *
+ * The LLM verdict is blended with the file relatedness and commit message
+ * heuristics. When the LLM is skipped or unreachable, the heuristics alone
+ * produce the score and the report is marked as heuristic-only. Either way
+ * a commit is atomic when its score reaches the threshold.
  */
 
-import { c } from './config.js';
+import { c, DEFAULT_WEIGHTS } from './config.js';
 import { analyzeWithLLM } from './llm.js';
-import type { CommitInfo, AtomicityReport, LLMConfig } from './types.js';
+import { LLMError } from './transport.js';
+import { analyzeFileRelatedness, analyzeMessage } from './analysis.js';
+import { getCommitInfo } from './git.js';
+import type { CommitInfo, AtomicityReport, CheckOptions, LLMConfig, ScoreWeights } from './types.js';
+
+/**
+ * Parse a --weights spec like "llm=0.6,files=0.3,message=0.1".
+ * Omitted signals keep their default weight. Returns null if invalid.
+ */
+export function parseWeights(spec: string): ScoreWeights | null {
+  const weights: ScoreWeights = { ...DEFAULT_WEIGHTS };
+  for (const part of spec.split(',')) {
+    const [key, value] = part.split('=').map(s => s.trim());
+    const weight = Number(value);
+    if (!(key in weights) || !value || !Number.isFinite(weight) || weight < 0) return null;
+    weights[key as keyof ScoreWeights] = weight;
+  }
+  return weights;
+}
+
+/**
+ * Weighted average of the available 0-100 scores. If every available
+ * signal has weight 0, they count equally instead.
+ */
+function blendScores(parts: Array<{ weight: number; score: number }>): number {
+  const total = parts.reduce((sum, p) => sum + p.weight, 0);
+  if (total <= 0) return parts.reduce((sum, p) => sum + p.score, 0) / parts.length;
+  return parts.reduce((sum, p) => sum + p.weight * p.score, 0) / total;
+}
+
+/**
+ * Write progress text that is overwritten in place. It goes to stderr, so
+ * it never mixes with the report, and only to a terminal, so logs stay clean.
+ */
+function writeProgress(text: string): void {
+  if (process.stderr.isTTY) process.stderr.write(text);
+}
 
 export async function checkCommitAtomicity(
   commit: CommitInfo,
-  config: LLMConfig
+  config: LLMConfig,
+  options: CheckOptions,
+  showProgress = true
 ): Promise<AtomicityReport> {
   const issues: string[] = [];
   const warnings: string[] = [];
   const suggestions: string[] = [];
 
-  // LLM analysis
-  process.stdout.write(`  ${c.dim}Analyzing with LLM...${c.reset}`);
-  const llmAnalysis = await analyzeWithLLM(commit, config) || undefined;
-  process.stdout.write('\r' + ' '.repeat(40) + '\r');
+  const files = analyzeFileRelatedness(commit.files);
+  const message = analyzeMessage(commit.message);
+  const heuristics = { files: files.score, message: message.score };
+  const parts = [
+    { weight: options.weights.files, score: files.score * 100 },
+    { weight: options.weights.message, score: message.score * 100 },
+  ];
+  suggestions.push(...message.suggestions);
 
-  let score = 50; // Default score
-  let isAtomic = false;
+  // LLM analysis
+  let llmAnalysis: AtomicityReport['llmAnalysis'];
+  let llmError: LLMError | undefined;
+  if (!options.offline) {
+    if (showProgress) writeProgress(`  ${c.dim}Analyzing with LLM...${c.reset}`);
+    try {
+      llmAnalysis = await analyzeWithLLM(commit, config) || undefined;
+    } catch (e) {
+      // Fall back to heuristics, unless the user asked to stop
+      if (!(e instanceof LLMError) || e.kind === 'cancelled') throw e;
+      llmError = e;
+    }
+    if (showProgress) writeProgress('\r' + ' '.repeat(40) + '\r');
+  }
 
   if (llmAnalysis) {
-    score = llmAnalysis.isAtomic ? (llmAnalysis.confidence * 100) : (30 + llmAnalysis.confidence * 20);
-    isAtomic = llmAnalysis.isAtomic && llmAnalysis.confidence > 0.6;
+    const llmScore = llmAnalysis.isAtomic ? (llmAnalysis.confidence * 100) : (30 + llmAnalysis.confidence * 20);
+    const score = blendScores([...parts, { weight: options.weights.llm, score: llmScore }]);
+    const isAtomic = score >= options.threshold;
 
+    // The LLM's concerns are the issues; heuristic findings are only warnings
+    warnings.push(...files.issues, ...message.issues);
     if (!llmAnalysis.isAtomic) {
       issues.push(...llmAnalysis.concerns);
       if (llmAnalysis.splitSuggestion) {
         suggestions.push(`LLM: ${llmAnalysis.splitSuggestion}`);
       }
     }
-  } else {
-    warnings.push('LLM analysis failed');
+
+    return { commit, isAtomic, score, mode: 'llm', heuristics, issues, warnings, suggestions, llmAnalysis };
   }
 
-  return { commit, isAtomic, score, issues, warnings, suggestions, llmAnalysis };
+  const score = blendScores(parts);
+  issues.push(...files.issues, ...message.issues);
+  warnings.push(options.offline
+    ? 'Heuristic-only score (LLM skipped with --offline)'
+    : `Heuristic-only score (LLM ${llmError ? `${llmError.kind} error: ${llmError.message}` : 'response could not be parsed'})`);
+
+  return { commit, isAtomic: score >= options.threshold, score, mode: 'heuristic', heuristics, issues, warnings, suggestions };
 }
 
 export function printReport(report: AtomicityReport, verbose: boolean): void {
   const { commit } = report;
   const status = report.isAtomic ? `${c.green}✓ ATOMIC${c.reset}` : `${c.red}✗ NOT ATOMIC${c.reset}`;
+  const label = report.mode === 'heuristic' ? ` ${c.yellow}[HEURISTIC ONLY]${c.reset}` : '';
 
-  console.log(`\n${c.bold}Commit ${c.blue}${commit.shortHash}${c.reset} ${status} (score: ${report.score.toFixed(0)}/100)`);
+  console.log(`\n${c.bold}Commit ${c.blue}${commit.shortHash}${c.reset} ${status} (score: ${report.score.toFixed(0)}/100)${label}`);
   console.log(`  ${commit.message.slice(0, 60)}${commit.message.length > 60 ? '...' : ''}`);
   console.log(`  ${commit.filesChanged} files, +${commit.insertions}/-${commit.deletions} lines`);
 
@@ -54,6 +123,11 @@ export function printReport(report: AtomicityReport, verbose: boolean): void {
     console.log(`     ${report.llmAnalysis.reasoning}`);
   }
 
+  if (verbose) {
+    const pct = (n: number) => (n * 100).toFixed(0);
+    console.log(`\n  ${c.cyan}Heuristics:${c.reset} file relatedness ${pct(report.heuristics.files)}%, message ${pct(report.heuristics.message)}%`);
+  }
+
   if (report.issues.length) {
     console.log(`\n  ${c.red}Issues:${c.reset}`);
     report.issues.forEach(i => console.log(`    • ${i}`));
@@ -75,3 +149,80 @@ export function printReport(report: AtomicityReport, verbose: boolean): void {
     if (commit.files.length > 10) console.log(`    ... and ${commit.files.length - 10} more`);
   }
 }
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight, keeping order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Check every commit in a list, issuing LLM calls concurrently.
+ * Commits whose info can't be read are skipped.
+ */
+export async function checkCommits(
+  hashes: string[],
+  config: LLMConfig,
+  options: CheckOptions,
+  concurrency: number,
+  showProgress = true
+): Promise<AtomicityReport[]> {
+  let done = 0;
+  const progress = () => {
+    if (showProgress) writeProgress(`\r  ${c.dim}Analyzed ${done}/${hashes.length} commits...${c.reset}`);
+  };
+  progress();
+
+  const reports = await mapWithConcurrency(hashes, concurrency, async hash => {
+    const commit = getCommitInfo(hash, true, options.ignore);
+    const report = commit ? await checkCommitAtomicity(commit, config, options, false) : null;
+    done++;
+    progress();
+    return report;
+  });
+
+  if (showProgress) writeProgress('\r' + ' '.repeat(40) + '\r');
+  return reports.filter((r): r is AtomicityReport => r !== null);
+}
+
+function pad(text: string, width: number): string {
+  return text.length > width ? text.slice(0, width - 1) + '…' : text.padEnd(width);
+}
+
+/**
+ * Print one row per commit: hash, score, verdict and top concern.
+ * Heuristic-only scores are marked with an asterisk.
+ */
+export function printRangeTable(reports: AtomicityReport[], threshold: number): void {
+  console.log(`\n${c.bold}${pad('Commit', 10)}${pad('Score', 7)}${pad('Verdict', 14)}Top concern${c.reset}`);
+  console.log(c.dim + '─'.repeat(90) + c.reset);
+
+  for (const report of reports) {
+    const scoreColor = report.score >= threshold ? c.green : c.red;
+    const verdict = report.isAtomic ? `${c.green}${pad('✓ atomic', 14)}${c.reset}` : `${c.red}${pad('✗ not atomic', 14)}${c.reset}`;
+    const concern = report.issues[0] || report.warnings[0] || '';
+    const score = report.score.toFixed(0) + (report.mode === 'heuristic' ? '*' : '');
+    console.log(
+      `${c.blue}${pad(report.commit.shortHash, 10)}${c.reset}` +
+      `${scoreColor}${pad(score, 7)}${c.reset}` +
+      verdict +
+      pad(concern, 60).trimEnd()
+    );
+  }
+
+  if (reports.some(r => r.mode === 'heuristic')) {
+    console.log(`\n${c.yellow}* Heuristic only: the LLM was skipped or unreachable for these commits${c.reset}`);
+  }
+}
@@ -3,7 +3,7 @@
  */
 
 // Colors for terminal output
-export const c = {
+const COLORS = {
   green: '\x1b[92m',
   yellow: '\x1b[93m',
   red: '\x1b[91m',
@@ -14,6 +14,13 @@ export const c = {
   reset: '\x1b[0m',
 };
 
+// Disabled when stdout isn't a terminal (pipes, CI logs) or NO_COLOR is set
+const useColor = !!process.stdout.isTTY && !process.env.NO_COLOR;
+
+export const c: typeof COLORS = useColor
+  ? COLORS
+  : Object.fromEntries(Object.keys(COLORS).map(k => [k, ''])) as typeof COLORS;
+
 export const LOGO = `
 ${c.dim}                                                             ${c.cyan}·${c.reset}
 ${c.dim}                                                        ${c.cyan}◦${c.reset}
@@ -39,6 +46,29 @@ export const DEFAULT_MODELS = {
   anthropic: 'claude-3-5-haiku-20241022',
   openai: 'gpt-5-mini-2025-08-07',
   openrouter: 'anthropic/claude-3.5-haiku',
+  'openai-compatible': 'llama3.1',
 } as const;
 
 export const DEFAULT_PROVIDER = 'bedrock' as const;
+// Context window (tokens) by model name, first match wins. Local servers
+// often run with a much smaller window than the model supports, so
+// openai-compatible uses LOCAL_CONTEXT_WINDOW unless contextWindow is set.
+export const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/claude/i, 200000],
+  [/gpt-5|gpt-4\.1/i, 400000],
+  [/gpt-4o|\bo[134]\b/i, 128000],
+];
+export const DEFAULT_CONTEXT_WINDOW = 32000;
+export const LOCAL_CONTEXT_WINDOW = 8192;
+
+export const DEFAULT_BASE_URL = 'http://localhost:11434/v1';   // Ollama's OpenAI-compatible API
+export const PROVIDERS = Object.keys(DEFAULT_MODELS) as Array<keyof typeof DEFAULT_MODELS>;
+
+// Check mode defaults
+export const DEFAULT_THRESHOLD = 60;      // Minimum atomicity score (0-100) for range checks
+export const DEFAULT_CONCURRENCY = 4;     // Parallel LLM calls when checking a range
+export const DEFAULT_TIMEOUT = 120;       // Seconds before an LLM request is abandoned
+export const DEFAULT_CACHE_MAX_AGE = 30;  // Days kept by 'cache prune'
+export const DEFAULT_MAX_SPLITS = 5;      // Most commits a split may produce
+export const DEFAULT_TRAILERS = ['Signed-off-by', 'Co-authored-by'];   // Trailers copied to every split commit
+export const DEFAULT_WEIGHTS = { llm: 0.7, files: 0.2, message: 0.1 };   // Score blend, see --weights
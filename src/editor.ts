@@ -0,0 +1,199 @@
+/**
+ * Interactive split plan editor
+ *
+ * Lets the user fix up a hunk-level plan before it is executed: move hunks
+ * between commits, join, split and reorder commits, edit messages and look
+ * at any hunk's diff. Patches are rebuilt from the hunks after every edit,
+ * so the plan shown is always the one that will be applied.
+ */
+
+import { c } from './config.js';
+import { rebuildPatchFromHunks } from './git.js';
+import type { ParsedHunk } from './git.js';
+import { validateClassification } from './llm.js';
+import { ask, isInputClosed } from './prompt.js';
+import { buildSymbolGraph, forwardReferences } from './symbols.js';
+import type { SymbolEdge } from './symbols.js';
+import type { SplitPlan } from './types.js';
+
+type Split = SplitPlan['splits'][number];
+
+const HELP = `${c.bold}Commands:${c.reset}
+  m <hunk> <commit>      Move a hunk to another commit (${c.dim}one past the last makes a new commit${c.reset})
+  j <commit> <commit>    Join two commits into one
+  s <commit> <hunk>...   Split hunks out of a commit into a new commit after it
+  o <commit> <position>  Move a commit to another position
+  e <commit>             Edit a commit's subject
+  d <hunk>               Show a hunk's full diff
+  v <commit>             Show a commit's full patch
+  l                      List the plan
+  w                      Done, use this plan
+  q                      Discard the edits`;
+
+/**
+ * Only hunk-level plans keep the hunks needed to edit them
+ */
+export function canEditPlan(plan: SplitPlan): boolean {
+  return !!plan.files && plan.splits.every(split => split.hunkIds);
+}
+
+function countChanges(hunk: ParsedHunk): string {
+  const lines = hunk.content.split('\n');
+  const added = lines.filter(l => l.startsWith('+')).length;
+  const removed = lines.filter(l => l.startsWith('-')).length;
+  return `+${added}/-${removed}`;
+}
+
+function printEditorPlan(plan: SplitPlan, hunks: Map<number, ParsedHunk>): void {
+  console.log('');
+  plan.splits.forEach((split, i) => {
+    const subject = split.message.split('\n')[0];
+    console.log(`  ${c.cyan}${i + 1}.${c.reset} ${subject} ${c.dim}(${split.diff.split('\n').length} lines of diff)${c.reset}`);
+    for (const id of split.hunkIds || []) {
+      const hunk = hunks.get(id);
+      if (!hunk) continue;
+      console.log(`     ${c.yellow}[${id}]${c.reset} ${hunk.filePath} ${c.dim}${hunk.header} ${countChanges(hunk)}${c.reset}`);
+    }
+  });
+}
+
+/**
+ * Drop commits left without hunks and rebuild every patch from its hunks
+ */
+function rebuild(plan: SplitPlan, splits: Split[]): SplitPlan {
+  const files = plan.files || [];
+  return {
+    ...plan,
+    splits: splits
+      .filter(split => split.hunkIds?.length)
+      .map(split => ({ ...split, diff: rebuildPatchFromHunks(files, split.hunkIds || []) })),
+  };
+}
+
+/**
+ * The checks a generated plan has to pass: at most `maxSplits` commits, and
+ * no commit using a symbol that only a later commit defines
+ */
+function planProblems(plan: SplitPlan, maxSplits: number, edges: SymbolEdge[]): string[] {
+  const commits = plan.splits.map(split => ({ message: split.message, description: split.description, hunkIds: split.hunkIds || [] }));
+  const hunkIds = (plan.files || []).flatMap(f => f.hunks.map(h => h.id));
+  return [
+    ...validateClassification({ reasoning: plan.reasoning, commits }, hunkIds, maxSplits),
+    ...forwardReferences(commits, edges),
+  ];
+}
+
+/**
+ * Let the user edit a hunk-level plan. Returns the edited plan, or null if
+ * the edits were discarded.
+ */
+export async function editPlan(plan: SplitPlan, maxSplits: number): Promise<SplitPlan | null> {
+  const hunks = new Map((plan.files || []).flatMap(f => f.hunks.map(h => [h.id, h] as [number, ParsedHunk])));
+  const edges = buildSymbolGraph(plan.files || []);
+
+  console.log(`\n${c.bold}Editing split plan${c.reset} ${c.dim}(? for help)${c.reset}`);
+  printEditorPlan(plan, hunks);
+
+  for (;;) {
+    const [command, ...args] = (await ask(`\n${c.cyan}edit>${c.reset} `)).split(/\s+/);
+    if (isInputClosed()) {
+      console.log(`  ${c.dim}Input closed; edits discarded.${c.reset}`);
+      return null;
+    }
+    const nums = args.map(a => parseInt(a));
+    const splits = plan.splits.map(split => ({ ...split, hunkIds: [...(split.hunkIds || [])] }));
+    const commitAt = (n: number) => Number.isInteger(n) && n >= 1 && n <= splits.length ? splits[n - 1] : null;
+    const owner = (id: number) => splits.findIndex(split => split.hunkIds.includes(id));
+    const fail = (message: string) => console.log(`  ${c.red}${message}${c.reset}`);
+
+    switch (command.toLowerCase()) {
+      case 'm': {
+        const [id, to] = nums;
+        const from = owner(id);
+        if (from < 0) { fail(`No hunk ${args[0] ?? ''}`); continue; }
+        if (to === splits.length + 1) {
+          splits.push({ message: `${splits[from].message.split('\n')[0]} (split)`, description: '', diff: '', hunkIds: [] });
+        } else if (!commitAt(to)) {
+          fail(`No commit ${args[1] ?? ''}`);
+          continue;
+        }
+        splits[from].hunkIds = splits[from].hunkIds.filter(h => h !== id);
+        splits[to - 1].hunkIds.push(id);
+        break;
+      }
+      case 'j': {
+        const [a, b] = nums;
+        if (!commitAt(a) || !commitAt(b) || a === b) { fail('Give two different commit numbers'); continue; }
+        const [first, second] = a < b ? [a - 1, b - 1] : [b - 1, a - 1];
+        splits[first] = {
+          message: `${splits[first].message}\n\n${splits[second].message}`,
+          description: `${splits[first].description} ${splits[second].description}`.trim(),
+          diff: '',
+          hunkIds: [...splits[first].hunkIds, ...splits[second].hunkIds],
+        };
+        splits.splice(second, 1);
+        break;
+      }
+      case 's': {
+        const [n, ...ids] = nums;
+        const split = commitAt(n);
+        if (!split) { fail(`No commit ${args[0] ?? ''}`); continue; }
+        if (!ids.length || ids.some(id => !split.hunkIds.includes(id))) { fail(`Give hunks from commit ${n}`); continue; }
+        if (ids.length === split.hunkIds.length) { fail('A commit cannot be split into all of its hunks'); continue; }
+        const message = await ask(`  Subject for the new commit: `);
+        split.hunkIds = split.hunkIds.filter(id => !ids.includes(id));
+        splits.splice(n, 0, { message: message || `${split.message.split('\n')[0]} (split)`, description: '', diff: '', hunkIds: ids });
+        break;
+      }
+      case 'o': {
+        const [n, to] = nums;
+        if (!commitAt(n) || !commitAt(to)) { fail('Give a commit number and a position'); continue; }
+        const [moved] = splits.splice(n - 1, 1);
+        splits.splice(to - 1, 0, moved);
+        break;
+      }
+      case 'e': {
+        const split = commitAt(nums[0]);
+        if (!split) { fail(`No commit ${args[0] ?? ''}`); continue; }
+        const [subject, ...body] = split.message.split('\n');
+        console.log(`  ${c.dim}Current: ${subject}${c.reset}`);
+        const message = await ask(`  New subject (empty to keep): `);
+        if (!message) continue;
+        split.message = [message, ...body].join('\n');
+        break;
+      }
+      case 'd': {
+        const hunk = hunks.get(nums[0]);
+        if (!hunk) { fail(`No hunk ${args[0] ?? ''}`); continue; }
+        console.log(`\n${c.bold}${hunk.filePath}${c.reset}\n${hunk.fullHunk}`);
+        continue;
+      }
+      case 'v': {
+        const split = commitAt(nums[0]);
+        if (!split) { fail(`No commit ${args[0] ?? ''}`); continue; }
+        console.log(`\n${split.diff}`);
+        continue;
+      }
+      case 'l':
+        printEditorPlan(plan, hunks);
+        continue;
+      case 'w': {
+        const problems = planProblems(plan, maxSplits, edges);
+        if (!problems.length) return plan;
+        console.log(`  ${c.yellow}The edited plan has problems:${c.reset}`);
+        for (const problem of problems) console.log(`    ${c.dim}- ${problem}${c.reset}`);
+        if ((await ask(`  Use it anyway? [y/N] `)).toLowerCase() === 'y') return plan;
+        continue;
+      }
+      case 'q':
+        console.log(`  ${c.dim}Edits discarded.${c.reset}`);
+        return null;
+      default:
+        console.log(HELP);
+        continue;
+    }
+
+    plan = rebuild(plan, splits);
+    printEditorPlan(plan, hunks);
+  }
+}
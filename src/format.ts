@@ -0,0 +1,140 @@
+/**
+ * Machine-readable output formats for check reports
+ */
+
+import type { AtomicityReport, CommitInfo, OutputFormat } from './types.js';
+
+const TOOL_NAME = 'git-fission';
+const TOOL_URI = 'https://github.com/dreamyang-liu/git-fission';
+const RULE_ID = 'non-atomic-commit';
+
+/**
+ * Commit info without the (potentially huge) diff
+ */
+function commitSummary(commit: CommitInfo) {
+  const { diff: _diff, ...summary } = commit;
+  return summary;
+}
+
+function reportToJSON(report: AtomicityReport, passed: boolean) {
+  return {
+    commit: commitSummary(report.commit),
+    isAtomic: report.isAtomic,
+    score: Math.round(report.score),
+    mode: report.mode,
+    heuristics: report.heuristics,
+    passed,
+    issues: report.issues,
+    warnings: report.warnings,
+    suggestions: report.suggestions,
+    llmAnalysis: report.llmAnalysis ?? null,
+  };
+}
+
+function formatJSON(reports: AtomicityReport[], passes: (r: AtomicityReport) => boolean): string {
+  return JSON.stringify({
+    tool: TOOL_NAME,
+    passed: reports.every(passes),
+    commits: reports.map(r => reportToJSON(r, passes(r))),
+  }, null, 2);
+}
+
+function escapeXmlText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeXmlAttr(text: string): string {
+  return escapeXmlText(text).replace(/"/g, '&quot;').replace(/\n/g, '&#10;');
+}
+
+function formatJUnit(reports: AtomicityReport[], passes: (r: AtomicityReport) => boolean): string {
+  const failures = reports.filter(r => !passes(r)).length;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${reports.length}" failures="${failures}">`,
+    `  <testsuite name="commit-atomicity" tests="${reports.length}" failures="${failures}">`,
+  ];
+
+  for (const report of reports) {
+    const { commit } = report;
+    const name = escapeXmlAttr(`${commit.shortHash} ${commit.message}`);
+    lines.push(`    <testcase classname="${TOOL_NAME}.atomicity" name="${name}">`);
+
+    if (!passes(report)) {
+      const details = [
+        ...report.issues.map(i => `Issue: ${i}`),
+        ...report.warnings.map(w => `Warning: ${w}`),
+        ...report.suggestions.map(s => `Suggestion: ${s}`),
+      ].join('\n');
+      const label = report.mode === 'heuristic' ? ' (heuristic only)' : '';
+      lines.push(`      <failure message="${escapeXmlAttr(`Atomicity score ${report.score.toFixed(0)}/100${label}`)}" type="${RULE_ID}">${escapeXmlText(details)}</failure>`);
+    }
+
+    const properties = JSON.stringify(reportToJSON(report, passes(report)), null, 2);
+    lines.push(`      <system-out>${escapeXmlText(properties)}</system-out>`);
+    lines.push('    </testcase>');
+  }
+
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n');
+}
+
+function formatSARIF(reports: AtomicityReport[], passes: (r: AtomicityReport) => boolean): string {
+  const results = reports.map(report => {
+    const { commit } = report;
+    const passed = passes(report);
+    const reason = report.llmAnalysis?.reasoning || report.issues[0] || report.warnings[0] || '';
+
+    return {
+      ruleId: RULE_ID,
+      kind: passed ? 'pass' : 'fail',
+      level: passed ? 'none' : 'warning',
+      message: {
+        text: `Commit ${commit.shortHash} "${commit.message}" scored ${report.score.toFixed(0)}/100${report.mode === 'heuristic' ? ' (heuristic only)' : ''}${reason ? `: ${reason}` : ''}`,
+      },
+      locations: commit.files.slice(0, 10).map(file => ({
+        physicalLocation: { artifactLocation: { uri: file } },
+      })),
+      partialFingerprints: { commitHash: commit.hash },
+      properties: reportToJSON(report, passed),
+    };
+  });
+
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          informationUri: TOOL_URI,
+          rules: [{
+            id: RULE_ID,
+            shortDescription: { text: 'Commit is not atomic' },
+            fullDescription: { text: 'A commit should do exactly one logical thing, with related changes and a clear message.' },
+          }],
+        },
+      },
+      results,
+    }],
+  }, null, 2);
+}
+
+/**
+ * Render check reports in a machine-readable format.
+ * `passes` decides which reports count as passing (threshold or verdict).
+ */
+export function formatReports(
+  reports: AtomicityReport[],
+  format: Exclude<OutputFormat, 'text'>,
+  passes: (r: AtomicityReport) => boolean
+): string {
+  switch (format) {
+    case 'json':
+      return formatJSON(reports, passes);
+    case 'junit':
+      return formatJUnit(reports, passes);
+    case 'sarif':
+      return formatSARIF(reports, passes);
+  }
+}
@@ -6,14 +6,24 @@ import { spawnSync } from 'child_process';
 import { c } from './config.js';
 import type { CommitInfo } from './types.js';
 
-export function runGit(args: string[]): { ok: boolean; output: string } {
+export interface RunGitOptions {
+  trim?: boolean;                     // Trim stdout (default true); disable to read file content verbatim
+  env?: Record<string, string>;       // Extra environment variables (e.g. GIT_INDEX_FILE)
+  input?: string;                     // Data written to stdin
+}
+
+export function runGit(args: string[], options: RunGitOptions = {}): { ok: boolean; output: string } {
+  const { trim = true, env, input } = options;
   const result = spawnSync('git', args, {
     encoding: 'utf-8',
     maxBuffer: 10 * 1024 * 1024, // 10MB buffer for large diffs
+    env: env ? { ...process.env, ...env } : undefined,
+    input,
   });
 
   if (result.status === 0) {
-    return { ok: true, output: (result.stdout || '').trim() };
+    const stdout = result.stdout || '';
+    return { ok: true, output: trim ? stdout.trim() : stdout };
   } else {
     const errorMsg = result.stderr || result.error?.message || 'Unknown error';
     return { ok: false, output: errorMsg.toString().trim() };
@@ -45,19 +55,16 @@ export function getUnpushedCommits(n?: number): string[] {
   return output.split('\n').filter(Boolean);
 }
 
-export function getCommitInfo(hash: string, includeDiff: boolean | 'full' = false): CommitInfo | null {
-  const { ok, output } = runGit(['show', hash, '--format=%H%n%h%n%s%n%an', '--stat', '--stat-width=1000']);
-  if (!ok) return null;
-  const lines = output.split('\n');
-  if (lines.length < 4) return null;
-
-  const [fullHash, shortHash, message, author] = lines;
+/**
+ * Parse `--stat` output into file names and line counts
+ */
+function parseStat(lines: string[]): { files: string[]; insertions: number; deletions: number } {
   const files: string[] = [];
   let insertions = 0, deletions = 0;
 
-  for (const line of lines.slice(5)) {
+  for (const line of lines) {
     if (!line.trim()) continue;
-    const fileMatch = line.match(/^\s*(.+?)\s*\|\s*(\d+)/);
+    const fileMatch = line.match(/^\s*(.+?)\s*\|\s*(\d+|Bin)/);
     if (fileMatch) files.push(fileMatch[1].trim());
     const insMatch = line.match(/(\d+) insertion/);
     if (insMatch) insertions = parseInt(insMatch[1]);
@@ -65,32 +72,136 @@ export function getCommitInfo(hash: string, includeDiff: boolean | 'full' = fals
     if (delMatch) deletions = parseInt(delMatch[1]);
   }
 
+  return { files, insertions, deletions };
+}
+
+/**
+ * Read a diff for analysis. Check diffs are truncated; split diffs are read
+ * whole (large ones are classified in batches). Returns null only when a
+ * 'full' diff is more than git's output buffer can hold; `tip` then says how
+ * to make the change smaller.
+ */
+function readDiff(args: string[], includeDiff: true | 'full', tip: string): string | null {
+  const { ok: diffOk, output: diffOut } = runGit(args);
+  if (diffOk && diffOut) {
+    const maxDiff = 8000;
+    return includeDiff !== 'full' && diffOut.length > maxDiff ? diffOut.slice(0, maxDiff) + '\n... (truncated)' : diffOut;
+  }
+  if (includeDiff === 'full' && /ENOBUFS|maxBuffer/.test(diffOut)) {
+    console.error(`  ${c.red}Error: Diff is larger than 10MB${c.reset}`);
+    console.error(`  ${c.yellow}Please split it manually into smaller chunks first.${c.reset}`);
+    console.error(`  ${c.dim}Tip: ${tip}${c.reset}`);
+    return null;
+  }
+  console.error(`  ${c.yellow}Warning: Failed to get diff (ok=${diffOk})${c.reset}`);
+  if (diffOut) console.error(`  ${c.dim}Error: ${diffOut}${c.reset}`);
+  return '';
+}
+
+/**
+ * Get the commits in a range, oldest first.
+ * A single ref is treated as `<ref>..HEAD`; `<ref>^!` means just that commit.
+ */
+export function getCommitsInRange(range: string): string[] | null {
+  const spec = range.includes('..') || range.endsWith('^!') ? range : `${range}..HEAD`;
+  const { ok, output } = runGit(['rev-list', '--reverse', spec]);
+  if (!ok) return null;
+  return output.split('\n').filter(Boolean);
+}
+
+/**
+ * Pathspec arguments for the whole tree minus the excluded pathspecs
+ */
+function excludeArgs(exclude: string[]): string[] {
+  return exclude.length ? ['--', ':/', ...exclude.map(p => `:(top,exclude)${p}`)] : [];
+}
+
+/**
+ * Get a commit's info, optionally leaving out paths matching `exclude`
+ * (git pathspecs, e.g. lockfiles or generated code)
+ */
+export function getCommitInfo(hash: string, includeDiff: boolean | 'full' = false, exclude: string[] = []): CommitInfo | null {
+  const { ok, output } = runGit(['show', '-s', hash, '--format=%H%n%h%n%s%n%an%n%b']);
+  if (!ok) return null;
+  const lines = output.split('\n');
+  if (lines.length < 4) return null;
+  const body = lines.slice(4).join('\n').trim();
+
+  // Stats are read separately: with pathspecs, git show prints nothing at all
+  // for a commit whose changes are all excluded
+  const [fullHash, shortHash, message, author] = lines;
+  const { output: stat } = runGit(['show', hash, '--format=', '--stat', '--stat-width=1000', ...excludeArgs(exclude)]);
+  const { files, insertions, deletions } = parseStat(stat.split('\n'));
+
   let diff = '';
-  if (includeDiff) {
-    const { ok: diffOk, output: diffOut } = runGit(['show', hash, '--format=', '-p']);
-    if (diffOk && diffOut) {
-      const maxDiff = includeDiff === 'full' ? 200000 : 8000;
-      if (includeDiff === 'full' && diffOut.length > maxDiff) {
-        console.error(`  ${c.red}Error: Diff is too large (${Math.round(diffOut.length / 1024)}KB > 200KB limit)${c.reset}`);
-        console.error(`  ${c.yellow}Please split this commit manually into smaller chunks first.${c.reset}`);
-        console.error(`  ${c.dim}Tip: Use 'git reset HEAD~1' to unstage, then create smaller commits.${c.reset}`);
-        return null;
-      }
-      diff = diffOut.length > maxDiff ? diffOut.slice(0, maxDiff) + '\n... (truncated)' : diffOut;
-    } else {
-      console.error(`  ${c.yellow}Warning: Failed to get diff (ok=${diffOk})${c.reset}`);
-      if (diffOut) console.error(`  ${c.dim}Error: ${diffOut}${c.reset}`);
-    }
+  if (includeDiff && files.length) {
+    // Splits need binary content and renames to recreate every change
+    const fullArgs = includeDiff === 'full' ? ['--binary', '-M'] : [];
+    const diffOut = readDiff(
+      ['show', hash, '--format=', '-p', ...fullArgs, ...excludeArgs(exclude)],
+      includeDiff,
+      "Use 'git reset HEAD~1' (or 'git rebase -i' for an older commit) to undo the commit, then create smaller commits."
+    );
+    if (diffOut === null) return null;
+    diff = diffOut;
   }
 
-  return { hash: fullHash, shortHash, message, author, filesChanged: files.length, insertions, deletions, files, diff };
+  return { hash: fullHash, shortHash, message, body, author, filesChanged: files.length, insertions, deletions, files, diff };
+}
+
+/**
+ * Get the staged changes (index vs HEAD) in the same shape as a commit,
+ * so they can be analyzed and split before they are committed
+ */
+export function getStagedInfo(): CommitInfo | null {
+  const { ok, output } = runGit(['diff', '--cached', '--stat', '--stat-width=1000']);
+  if (!ok || !output) return null;
+
+  const { files, insertions, deletions } = parseStat(output.split('\n'));
+  const diff = readDiff(['diff', '--cached', '--binary', '-M'], 'full', "Use 'git restore --staged <path>' to unstage some files, then split the rest.");
+  if (diff === null) return null;
+
+  const { output: author } = runGit(['config', 'user.name']);
+  return {
+    hash: '',
+    shortHash: 'staged changes',
+    message: '(staged changes, not yet committed)',
+    body: '',
+    author,
+    filesChanged: files.length,
+    insertions,
+    deletions,
+    files,
+    diff,
+  };
+}
+
+/**
+ * Get the absolute path of the .git directory
+ */
+export function getGitDir(): string | null {
+  const { ok, output } = runGit(['rev-parse', '--absolute-git-dir']);
+  return ok ? output : null;
+}
+
+/**
+ * Get the commits between a commit and HEAD, oldest first.
+ * Returns null if the commit is not an ancestor of HEAD.
+ */
+export function getDescendants(hash: string): string[] | null {
+  const { ok: isAncestor } = runGit(['merge-base', '--is-ancestor', hash, 'HEAD']);
+  if (!isAncestor) return null;
+
+  const { ok, output } = runGit(['rev-list', '--reverse', `${hash}..HEAD`]);
+  if (!ok) return null;
+  return output.split('\n').filter(Boolean);
 }
 
 /**
  * Get file content at a specific git ref
  */
 export function getFileAtRef(ref: string, filePath: string): string | null {
-  const { ok, output } = runGit(['show', `${ref}:${filePath}`]);
+  const { ok, output } = runGit(['show', `${ref}:${filePath}`], { trim: false });
   return ok ? output : null;
 }
 
@@ -130,6 +241,7 @@ export interface ParsedHunk {
   fullHunk: string;     // Complete hunk including header
   startLine: number;    // Starting line in original file
   summary: string;      // Brief summary of what this hunk does
+  fileLevel?: boolean;  // The whole file's change as one unit (binary, rename, mode change, empty file)
 }
 
 /**
@@ -141,6 +253,29 @@ export interface ParsedFileDiff {
   hunks: ParsedHunk[];
 }
 
+/**
+ * Describe a file change that must be applied as one unit: one with no @@
+ * hunks (binary content, pure rename, mode change, empty file), or a rename
+ * or mode change that has to travel with its hunks. Null for ordinary files.
+ */
+function describeFileLevelChange(lines: string[], hasHunks: boolean): string | null {
+  const parts: string[] = [];
+  for (const line of lines) {
+    if (line === 'GIT binary patch' || line.startsWith('Binary files ')) parts.push('binary');
+    else if (line.startsWith('rename from ')) parts.push(`renamed from ${line.slice('rename from '.length)}`);
+    else if (line.startsWith('copy from ')) parts.push(`copied from ${line.slice('copy from '.length)}`);
+    else if (line.startsWith('old mode ')) parts.push(`mode ${line.slice('old mode '.length)}`);
+    else if (line.startsWith('new mode ')) parts[parts.length - 1] += ` -> ${line.slice('new mode '.length)}`;
+  }
+  if (!hasHunks && !parts.includes('binary')) {
+    if (lines.some(l => l.startsWith('new file mode'))) parts.push('new empty file');
+    else if (lines.some(l => l.startsWith('deleted file mode'))) parts.push('deleted empty file');
+  }
+
+  if (parts.length) return hasHunks ? `${parts.join(', ')}, with changes` : parts.join(', ');
+  return hasHunks ? null : 'file change';
+}
+
 /**
  * Parse a full diff into files and hunks
  */
@@ -219,9 +354,30 @@ export function parseDiffIntoHunks(diff: string): ParsedFileDiff[] {
       });
     }
 
-    if (hunks.length > 0) {
+    const fileLevel = describeFileLevelChange(lines.slice(0, headerEndIndex || lines.length), hunks.length > 0);
+    if (fileLevel === null) {
       files.push({ filePath, fileHeader, hunks });
+      continue;
     }
+
+    // One unit carrying the whole header (and any hunks), so it lands in exactly one commit
+    const body = hunks.map(h => h.fullHunk).join('\n');
+    const header = hunks.length ? fileHeader : lines.slice(0, lines[lines.length - 1] === '' ? -1 : undefined).join('\n');
+    hunkId -= hunks.length;
+    files.push({
+      filePath,
+      fileHeader: header,
+      hunks: [{
+        id: hunkId++,
+        filePath,
+        header: `(${fileLevel})`,
+        content: body,
+        fullHunk: body ? `${header}\n${body}` : header,
+        startLine: 0,
+        summary: fileLevel,
+        fileLevel: true,
+      }],
+    });
   }
 
   return files;
@@ -263,6 +419,12 @@ export function rebuildPatchFromHunks(
 
     patchParts.push(file.fileHeader);
 
+    // A file-level unit is replayed exactly as it was
+    if (selectedHunks[0].fileLevel) {
+      if (selectedHunks[0].content) patchParts.push(selectedHunks[0].content);
+      continue;
+    }
+
     // Track cumulative line offset for this file
     // (lines added minus lines removed by previous hunks in THIS patch)
     let cumulativeOffset = 0;
@@ -330,6 +492,8 @@ export function parseDiffWithLines(diff: string): ParsedDiffWithLines {
   for (const file of files) {
     for (let hunkIdx = 0; hunkIdx < file.hunks.length; hunkIdx++) {
       const hunk = file.hunks[hunkIdx];
+      // File-level units are not split by line
+      if (hunk.fileLevel) continue;
       const hunkLines = hunk.content.split('\n');
 
       for (let lineIdx = 0; lineIdx < hunkLines.length; lineIdx++) {
@@ -553,8 +717,8 @@ export function generateUnifiedDiff(
   isNewFile: boolean = false,
   contextLines: number = 3
 ): string {
-  const oldLines = oldContent.split('\n');
-  const newLines = newContent.split('\n');
+  const oldLines = markLastLine(splitContentLines(oldContent), oldContent);
+  const newLines = markLastLine(splitContentLines(newContent), newContent);
 
   // Simple LCS-based diff
   const diff = computeLineDiff(oldLines, newLines);
@@ -598,6 +762,25 @@ export function generateUnifiedDiff(
   return parts.join('\n') + '\n';
 }
 
+/**
+ * Split file content into lines, without a phantom empty line
+ * for the trailing newline (or for an empty file)
+ */
+function splitContentLines(content: string): string[] {
+  if (content === '') return [];
+  return content.replace(/\n$/, '').split('\n');
+}
+
+// Appended to a last line that has no newline, so it never matches the
+// same text with a newline and the hunk gets a "\ No newline" marker
+const NO_NEWLINE = '\0';
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+function markLastLine(lines: string[], content: string): string[] {
+  if (!lines.length || content.endsWith('\n')) return lines;
+  return [...lines.slice(0, -1), lines[lines.length - 1] + NO_NEWLINE];
+}
+
 interface DiffOp {
   type: 'keep' | 'add' | 'remove';
   oldIdx?: number;
@@ -759,6 +942,10 @@ function buildHunkString(ops: DiffOp[], _oldLines: string[], _newLines: string[]
   let newCount = 0;
 
   const lines: string[] = [];
+  const push = (prefix: string, line: string) => {
+    if (line.endsWith(NO_NEWLINE)) lines.push(prefix + line.slice(0, -1), NO_NEWLINE_MARKER);
+    else lines.push(prefix + line);
+  };
 
   for (const op of ops) {
     if (op.type === 'keep') {
@@ -766,15 +953,15 @@ function buildHunkString(ops: DiffOp[], _oldLines: string[], _newLines: string[]
       if (op.newIdx !== undefined && op.newIdx < newStart) newStart = op.newIdx;
       oldCount++;
       newCount++;
-      lines.push(' ' + op.line);
+      push(' ', op.line);
     } else if (op.type === 'remove') {
       if (op.oldIdx !== undefined && op.oldIdx < oldStart) oldStart = op.oldIdx;
       oldCount++;
-      lines.push('-' + op.line);
+      push('-', op.line);
     } else if (op.type === 'add') {
       if (op.newIdx !== undefined && op.newIdx < newStart) newStart = op.newIdx;
       newCount++;
-      lines.push('+' + op.line);
+      push('+', op.line);
     }
   }
 
@@ -798,6 +985,59 @@ export interface FileChange {
   lineIds: number[];  // Which line IDs from parsed.lines are in this change
 }
 
+/**
+ * One line of a file as it moves from the original content to the final
+ * one: an original line (present until its removal is applied) or an added
+ * line (present once its addition is applied)
+ */
+interface TrackedLine {
+  text: string;
+  lineId?: number;      // ID of the changed line, if it is one
+  added?: boolean;      // Changed line that the diff adds (else removes)
+  noNewline?: boolean;  // Ends its side of the diff without a newline
+  present: boolean;
+}
+
+/**
+ * Lay out a file's original lines and its changed lines in diff order.
+ * Positions come from the original file, so changes can be applied in any
+ * order and always land in the right place.
+ */
+function trackFileLines(file: ParsedFileDiff, original: string, lines: ChangedLine[]): TrackedLine[] {
+  const originalLines = splitContentLines(original);
+  const tracked: TrackedLine[] = [];
+  let origIdx = 0;
+  const originalLine = (fallback: string): TrackedLine => {
+    const last = origIdx === originalLines.length - 1 && !original.endsWith('\n');
+    return { text: originalLines[origIdx++] ?? fallback, noNewline: last || undefined, present: true };
+  };
+
+  file.hunks.forEach((hunk, hunkIdx) => {
+    if (hunk.fileLevel) return;
+    // A hunk that removes nothing (-a,0) inserts after line a
+    const oldCount = hunk.header.match(/^@@ -\d+(?:,(\d+))?/)?.[1];
+    const start = oldCount === '0' ? hunk.startLine : hunk.startLine - 1;
+    while (origIdx < start && origIdx < originalLines.length) tracked.push(originalLine(''));
+
+    const hunkLines = hunk.content.split('\n');
+    hunkLines.forEach((hunkLine, lineIdx) => {
+      const lineId = lines.find(l => l.hunkIdx === hunkIdx && l.lineIdx === lineIdx)?.id;
+      if (hunkLine.startsWith(' ')) {
+        tracked.push(originalLine(hunkLine.slice(1)));
+      } else if (hunkLine.startsWith('-')) {
+        tracked.push({ ...originalLine(hunkLine.slice(1)), lineId });
+      } else if (hunkLine.startsWith('+')) {
+        // The "\ No newline" marker after an added line applies to the new side
+        const noNewline = hunkLines[lineIdx + 1]?.startsWith('\\') || undefined;
+        tracked.push({ text: hunkLine.slice(1), lineId, added: true, noNewline, present: false });
+      }
+    });
+  });
+
+  while (origIdx < originalLines.length) tracked.push(originalLine(''));
+  return tracked;
+}
+
 /**
  * Build patches for all commits, handling the case where the same file
  * is modified by multiple commits. Tracks file state across patches.
@@ -805,31 +1045,21 @@ export interface FileChange {
 export function buildPatchesWithFileTracking(
   parsed: ParsedDiffWithLines,
   commits: Array<{ message: string; description: string; lineIds: number[] }>,
-  commitHash: string  // To get original file content
+  baseRef: string  // Ref the diff applies to, to get original file content
 ): Array<{ message: string; description: string; diff: string }> {
-  // Track current state of each file (starts with content from HEAD~1)
-  const fileStates = new Map<string, string>();
+  // Track each file's lines, and its current content (starting from the base ref)
+  const tracking = new Map<string, { lines: TrackedLine[]; content: string }>();
   const newFiles = new Set<string>();
   const createdInPatch = new Set<string>();  // Files created by earlier patches
 
-  // Identify new files from parsed diff
   for (const file of parsed.files) {
-    if (file.fileHeader.includes('new file mode') || file.fileHeader.includes('--- /dev/null')) {
-      newFiles.add(file.filePath);
-      fileStates.set(file.filePath, '');  // New file starts empty
-    } else {
-      // Get original file content
-      const content = getFileAtRef(`${commitHash}~1`, file.filePath);
-      if (content !== null) {
-        fileStates.set(file.filePath, content);
-      }
-    }
-  }
+    const isNew = file.fileHeader.includes('new file mode') || file.fileHeader.includes('--- /dev/null');
+    if (isNew) newFiles.add(file.filePath);
+    const original = isNew ? '' : getFileAtRef(baseRef, file.filePath);
+    if (original === null) continue;
 
-  // Build a map of line ID to line info
-  const lineMap = new Map<number, ChangedLine>();
-  for (const line of parsed.lines) {
-    lineMap.set(line.id, line);
+    const fileLines = parsed.lines.filter(l => l.filePath === file.filePath);
+    tracking.set(file.filePath, { lines: trackFileLines(file, original, fileLines), content: original });
   }
 
   // Process each commit
@@ -837,76 +1067,31 @@ export function buildPatchesWithFileTracking(
 
   for (const commit of commits) {
     const patchParts: string[] = [];
+    const selected = new Set(commit.lineIds);
 
-    // Group line IDs by file
-    const changesByFile = new Map<string, number[]>();
-    for (const lineId of commit.lineIds) {
-      const line = lineMap.get(lineId);
-      if (!line) continue;
-      if (!changesByFile.has(line.filePath)) {
-        changesByFile.set(line.filePath, []);
-      }
-      changesByFile.get(line.filePath)!.push(lineId);
-    }
+    for (const file of parsed.files) {
+      const state = tracking.get(file.filePath);
+      if (!state || !state.lines.some(l => l.lineId !== undefined && selected.has(l.lineId))) continue;
 
-    // Process each file in this commit
-    for (const [filePath, lineIds] of changesByFile) {
-      const currentContent = fileStates.get(filePath) || '';
-      const file = parsed.files.find(f => f.filePath === filePath);
-      if (!file) continue;
-
-      // Build target content by applying selected changes
-      const currentLines = currentContent.split('\n');
-      const finalLines = [...currentLines];
-      let offset = 0;
-
-      for (const hunk of file.hunks) {
-        const hunkLines = hunk.content.split('\n');
-        let posInOld = hunk.startLine - 1;  // 0-indexed position in original file
-
-        for (let lineIdx = 0; lineIdx < hunkLines.length; lineIdx++) {
-          const hunkLine = hunkLines[lineIdx];
-          if (hunkLine === '' && lineIdx === hunkLines.length - 1) continue;
-
-          const matchingLine = parsed.lines.find(
-            l => l.filePath === filePath && l.hunkIdx === file.hunks.indexOf(hunk) && l.lineIdx === lineIdx
-          );
-          const isSelected = matchingLine && lineIds.includes(matchingLine.id);
-
-          if (hunkLine.startsWith('-')) {
-            if (isSelected) {
-              // Remove this line
-              if (posInOld + offset >= 0 && posInOld + offset < finalLines.length) {
-                finalLines.splice(posInOld + offset, 1);
-                offset--;
-              }
-            }
-            posInOld++;
-          } else if (hunkLine.startsWith('+')) {
-            if (isSelected) {
-              // Add this line
-              const insertPos = Math.max(0, Math.min(finalLines.length, posInOld + offset));
-              finalLines.splice(insertPos, 0, hunkLine.slice(1));
-              offset++;
-            }
-          } else if (hunkLine.startsWith(' ')) {
-            posInOld++;
-          }
-        }
+      // Removed lines disappear and added lines appear
+      for (const line of state.lines) {
+        if (line.lineId !== undefined && selected.has(line.lineId)) line.present = !!line.added;
       }
-
-      const targetContent = finalLines.join('\n');
+      // Whether the file ends in a newline depends on which line is last
+      const kept = state.lines.filter(l => l.present);
+      const last = kept[kept.length - 1];
+      const targetContent = kept.length ? kept.map(l => l.text).join('\n') + (last.noNewline ? '' : '\n') : '';
 
       // Generate unified diff
-      const isNewFile = newFiles.has(filePath) && !createdInPatch.has(filePath);
-      const diff = generateUnifiedDiff(filePath, currentContent, targetContent, isNewFile);
+      const isNewFile = newFiles.has(file.filePath) && !createdInPatch.has(file.filePath);
+      const diff = generateUnifiedDiff(file.filePath, state.content, targetContent, isNewFile);
 
       if (diff) {
         patchParts.push(diff);
         // Update file state for next patch
-        fileStates.set(filePath, targetContent);
+        state.content = targetContent;
         if (isNewFile) {
-          createdInPatch.add(filePath);
+          createdInPatch.add(file.filePath);
         }
       }
     }
@@ -0,0 +1,276 @@
+/**
+ * Heuristic split strategy
+ *
+ * Groups hunks without calling a model, from the same signals the
+ * relatedness score uses (directory and file type) plus a few kinds of
+ * change that belong in their own commit: dependency manifests and
+ * lockfiles, configuration, documentation and whitespace-only edits.
+ * Tests are paired with the source files they cover. Commit messages come
+ * from templates, so the plan is deterministic: useful offline, in CI, and
+ * as a baseline to compare an LLM plan against.
+ */
+
+import * as path from 'path';
+import { DEFAULT_MAX_SPLITS } from './config.js';
+import { parseDiffIntoHunks, rebuildPatchFromHunks } from './git.js';
+import type { ParsedFileDiff, ParsedHunk } from './git.js';
+import { buildSymbolGraph, commitEdges, orderByDependencies } from './symbols.js';
+import type { SymbolEdge } from './symbols.js';
+import type { CommitInfo, SplitPlan } from './types.js';
+
+type Kind = 'deps' | 'config' | 'style' | 'source' | 'test' | 'docs';
+type FileChange = 'added' | 'deleted' | 'modified';
+
+interface Group {
+  kind: Kind;
+  dir: string;              // Directory the group's files share
+  hunks: ParsedHunk[];
+  hasTests: boolean;        // Source group that took in its tests
+}
+
+// Groups are committed in this order: what code builds on comes first
+const KIND_ORDER: Kind[] = ['deps', 'config', 'style', 'source', 'test', 'docs'];
+
+const KIND_LABELS: Record<Kind, string> = {
+  deps: 'dependency', config: 'configuration', style: 'whitespace-only', source: 'source', test: 'test', docs: 'documentation',
+};
+
+// Kinds that make sense in one commit when there are too many groups
+const RELATED_KINDS: Array<[Kind, Kind]> = [['deps', 'config'], ['source', 'test'], ['source', 'style'], ['test', 'style']];
+
+const DEPENDENCY_FILES = [
+  'package.json', 'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb',
+  'go.mod', 'go.sum', 'Cargo.toml', 'Cargo.lock', 'Gemfile', 'Gemfile.lock', 'composer.json', 'composer.lock',
+  'pyproject.toml', 'poetry.lock', 'Pipfile', 'Pipfile.lock', 'uv.lock',
+];
+
+const CONFIG_PATTERNS = [
+  /(^|\/)\.github\//,
+  /(^|\/)\.[^/]*rc(\.\w+)?$/,
+  /(^|\/)(tsconfig|jsconfig)[^/]*\.json$/,
+  /\.config\.[cm]?[jt]s$/,
+  /(^|\/)(Dockerfile|Makefile|\.gitignore|\.gitattributes|\.editorconfig)$/,
+  /\.(ya?ml|toml|ini|cfg)$/,
+  /(^|\/)requirements[^/]*\.txt$/,
+];
+
+const DOC_PATTERNS = [
+  /(^|\/)docs?\//,
+  /\.(md|mdx|rst|adoc|txt)$/i,
+  /(^|\/)(README|CHANGELOG|CONTRIBUTING|LICENSE|NOTICE)[^/]*$/i,
+];
+
+const TEST_PATTERNS = [
+  /(^|\/)(tests?|__tests__|spec)\//,
+  /\.(test|spec)\.[^/.]+$/,
+  /_test\.go$/,
+  /(^|\/)test_[^/]+\.py$/,
+];
+
+/**
+ * A hunk that only changes whitespace: the same lines, apart from
+ * indentation, spacing and blank lines, are removed and added back
+ */
+function isWhitespaceOnly(hunk: ParsedHunk): boolean {
+  const lines = hunk.content.split('\n');
+  const normalized = (sign: string) => lines
+    .filter(l => l.startsWith(sign))
+    .map(l => l.slice(1).replace(/\s+/g, ''))
+    .filter(Boolean)
+    .sort()
+    .join('\n');
+  const removed = normalized('-');
+  return lines.some(l => l.startsWith('-')) && lines.some(l => l.startsWith('+')) && removed === normalized('+');
+}
+
+function kindOf(hunk: ParsedHunk): Kind {
+  const file = hunk.filePath;
+  if (DEPENDENCY_FILES.includes(path.posix.basename(file))) return 'deps';
+  if (!hunk.fileLevel && isWhitespaceOnly(hunk)) return 'style';
+  if (TEST_PATTERNS.some(p => p.test(file))) return 'test';
+  if (DOC_PATTERNS.some(p => p.test(file))) return 'docs';
+  if (CONFIG_PATTERNS.some(p => p.test(file))) return 'config';
+  return 'source';
+}
+
+/**
+ * The name a test file is about: `src/auth.test.ts`, `tests/test_auth.py`
+ * and `auth_test.go` are all about `auth`
+ */
+function subjectOf(file: string): string {
+  return path.posix.basename(file)
+    .replace(/\.[^.]+$/, '')
+    .replace(/\.(test|spec)$/, '')
+    .replace(/_test$/, '')
+    .replace(/^test_/, '');
+}
+
+function commonDir(files: string[]): string {
+  const parts = files.map(f => path.posix.dirname(f).split('/'));
+  const shared: string[] = [];
+  for (let i = 0; parts.every(p => i < p.length && p[i] === parts[0][i]); i++) shared.push(parts[0][i]);
+  return shared.join('/') === '.' ? '' : shared.join('/');
+}
+
+/**
+ * Merge `from` into `into`, keeping the kind of the larger group
+ */
+function mergeGroups(into: Group, from: Group): Group {
+  const hunks = [...into.hunks, ...from.hunks];
+  return {
+    kind: from.hunks.length > into.hunks.length ? from.kind : into.kind,
+    dir: commonDir(hunks.map(h => h.filePath)),
+    hunks,
+    hasTests: into.hasTests || from.hasTests || from.kind === 'test',
+  };
+}
+
+/**
+ * Put hunks into groups by kind and directory, and pair tests with the
+ * source group that has a file of the same name
+ */
+function groupHunks(hunks: ParsedHunk[]): Group[] {
+  const groups = new Map<string, Group>();
+  for (const hunk of hunks) {
+    const kind = kindOf(hunk);
+    const dir = ['source', 'test', 'style'].includes(kind) ? path.posix.dirname(hunk.filePath) : '';
+    const key = `${kind}:${dir}`;
+    const group = groups.get(key) ?? { kind, dir: dir === '.' ? '' : dir, hunks: [], hasTests: false };
+    group.hunks.push(hunk);
+    groups.set(key, group);
+  }
+
+  const sources = [...groups.values()].filter(g => g.kind === 'source');
+  const result: Group[] = [];
+  for (const group of groups.values()) {
+    if (group.kind !== 'test') {
+      result.push(group);
+      continue;
+    }
+    // Tests go with the source they cover, or stay together as a test commit
+    const unpaired: ParsedHunk[] = [];
+    for (const hunk of group.hunks) {
+      const subject = subjectOf(hunk.filePath);
+      const source = sources.find(g => g.hunks.some(h => subjectOf(h.filePath) === subject));
+      if (source) {
+        source.hunks.push(hunk);
+        source.hasTests = true;
+      } else {
+        unpaired.push(hunk);
+      }
+    }
+    if (unpaired.length) result.push({ ...group, hunks: unpaired });
+  }
+
+  return result.sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.dir.localeCompare(b.dir));
+}
+
+/**
+ * Merge groups until there are at most `maxSplits`: the smallest group
+ * goes into the group of the same or a related kind that shares the most
+ * of its directory
+ */
+function limitGroups(groups: Group[], maxSplits: number): Group[] {
+  groups = [...groups];
+  while (groups.length > Math.max(1, maxSplits)) {
+    const smallest = groups.reduce((min, g, i) => g.hunks.length < groups[min].hunks.length ? i : min, 0);
+    const group = groups[smallest];
+    const related = (other: Group) => RELATED_KINDS.some(([a, b]) => (a === group.kind && b === other.kind) || (b === group.kind && a === other.kind));
+    const closeness = (other: Group) =>
+      (other.kind === group.kind ? 1000 : related(other) ? 500 : 0) + commonDir([group.dir + '/x', other.dir + '/x']).split('/').filter(Boolean).length;
+    const target = groups.reduce((best, g, i) => i !== smallest && (best < 0 || closeness(g) > closeness(groups[best])) ? i : best, -1);
+    groups[target] = mergeGroups(groups[target], group);
+    groups.splice(smallest, 1);
+  }
+  return groups;
+}
+
+/**
+ * Order groups so symbols are defined before they are used. Groups that
+ * depend on each other in a cycle are merged into one.
+ */
+function orderGroups(groups: Group[], edges: SymbolEdge[]): Group[] {
+  const asCommits = (list: Group[]) => list.map(g => ({ group: g, hunkIds: g.hunks.map(h => h.id) }));
+  const ordered = orderByDependencies(asCommits(groups), edges);
+  if (ordered) return ordered.map(o => o.group);
+
+  const linked = new Set(commitEdges(asCommits(groups), edges).flatMap(e => [e.fromCommit, e.toCommit]));
+  const merged = groups.filter((_, i) => linked.has(i)).reduce(mergeGroups);
+  const rest = groups.filter((_, i) => !linked.has(i));
+  return orderByDependencies(asCommits([merged, ...rest]), edges)?.map(o => o.group) ?? [merged, ...rest];
+}
+
+function listFiles(files: string[]): string {
+  const names = [...new Set(files.map(f => path.posix.basename(f)))];
+  return names.length > 3 ? `${names.slice(0, 2).join(', ')} and ${names.length - 2} more files` : names.join(', ');
+}
+
+/**
+ * Whether each file is new, deleted or modified, from its diff header.
+ * This covers binary and empty files, which have no @@ line to go by.
+ */
+function fileChanges(files: ParsedFileDiff[]): Map<string, FileChange> {
+  return new Map(files.map(f => [
+    f.filePath,
+    /^new file mode/m.test(f.fileHeader) ? 'added' : /^deleted file mode/m.test(f.fileHeader) ? 'deleted' : 'modified',
+  ]));
+}
+
+/**
+ * Template commit message for a group
+ */
+function messageFor(group: Group, changes: Map<string, FileChange>): string {
+  const files = group.hunks.map(h => h.filePath);
+  const scope = group.dir ? `(${path.posix.basename(group.dir)})` : '';
+  const kinds = new Set(files.map(f => changes.get(f) ?? 'modified'));
+  const verb = kinds.size > 1 ? 'Update' : kinds.has('added') ? 'Add' : kinds.has('deleted') ? 'Remove' : 'Update';
+
+  switch (group.kind) {
+    case 'deps': return `build: Update dependencies in ${listFiles(files)}`;
+    case 'config': return `chore: Update configuration in ${listFiles(files)}`;
+    case 'style': return `style${scope}: Fix whitespace in ${listFiles(files)}`;
+    case 'docs': return `docs${scope}: ${verb} ${listFiles(files)}`;
+    case 'test': return `test${scope}: ${verb} tests in ${listFiles(files)}`;
+    case 'source': {
+      const sources = files.filter(f => !TEST_PATTERNS.some(p => p.test(f)));
+      const withTests = group.hasTests ? ' with tests' : '';
+      return `${verb === 'Add' ? 'feat' : 'refactor'}${scope}: ${verb} ${listFiles(sources.length ? sources : files)}${withTests}`;
+    }
+  }
+}
+
+function describe(group: Group): string {
+  const files = new Set(group.hunks.map(h => h.filePath)).size;
+  const where = group.dir ? ` in ${group.dir}` : '';
+  return `${group.hunks.length} hunk(s) from ${files} ${KIND_LABELS[group.kind]} file(s)${where}${group.hasTests ? ', with their tests' : ''}`;
+}
+
+/**
+ * Build a hunk-level split plan without an LLM
+ */
+export function generateHeuristicPlan(commit: CommitInfo, maxSplits = DEFAULT_MAX_SPLITS): SplitPlan | null {
+  if (!commit.diff) return null;
+
+  const files = parseDiffIntoHunks(commit.diff);
+  const hunks = files.flatMap(f => f.hunks);
+  if (!hunks.length) return null;
+  console.log(`  ${hunks.length} hunks across ${files.length} files`);
+
+  const groups = orderGroups(limitGroups(groupHunks(hunks), maxSplits), buildSymbolGraph(files));
+  const changes = fileChanges(files);
+
+  return {
+    reasoning: 'Grouped without an LLM by kind of change (dependencies, configuration, whitespace, source, tests, docs) and directory, with tests next to the source they cover.',
+    splits: groups.map(group => {
+      // Keep hunks in diff order within each commit
+      const hunkIds = group.hunks.map(h => h.id).sort((a, b) => a - b);
+      return {
+        message: messageFor(group, changes),
+        description: describe(group),
+        diff: rebuildPatchFromHunks(files, hunkIds),
+        hunkIds,
+      };
+    }),
+    files,
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Git hook installer for automatic atomicity checks
+ *
+ * Writes managed pre-push (and optionally post-commit) hooks that run check
+ * mode on the commits being pushed. An existing hook is kept and chained
+ * rather than overwritten, and restored on uninstall.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { c } from './config.js';
+import { runGit } from './git.js';
+
+export type HookPolicy = 'warn' | 'block';
+
+export interface HookInstallOptions {
+  postCommit: boolean;      // Also install a post-commit hook (always warn-only)
+  policy?: HookPolicy;      // Saved as fission.hookPolicy
+  threshold?: number;       // Saved as fission.hookThreshold
+}
+
+const MANAGED_MARKER = '# managed by git-fission';
+const CHAINED_SUFFIX = '.pre-fission';
+const MANAGED_HOOKS = ['pre-push', 'post-commit'];
+
+function getHooksDir(): string | null {
+  const { ok, output } = runGit(['rev-parse', '--git-path', 'hooks']);
+  return ok ? path.resolve(output) : null;
+}
+
+function isManaged(file: string): boolean {
+  return fs.existsSync(file) && fs.readFileSync(file, 'utf-8').includes(MANAGED_MARKER);
+}
+
+/**
+ * Shell snippet that finds the git-fission command, preferring the one on PATH
+ */
+function fissionCommand(): string {
+  const script = path.resolve(process.argv[1]);
+  return `if command -v git-fission >/dev/null 2>&1; then
+  FISSION="git-fission"
+else
+  FISSION="node '${script.replace(/'/g, `'\\''`)}'"
+fi`;
+}
+
+function prePushScript(): string {
+  return `#!/bin/sh
+${MANAGED_MARKER} - remove with: git-fission hooks uninstall
+HOOK_DIR=$(dirname "$0")
+INPUT=$(cat)
+
+# Run the hook this one replaced first
+if [ -x "$HOOK_DIR/pre-push${CHAINED_SUFFIX}" ]; then
+  printf '%s\\n' "$INPUT" | "$HOOK_DIR/pre-push${CHAINED_SUFFIX}" "$@" || exit $?
+fi
+
+[ -n "$GIT_FISSION_SKIP" ] && exit 0
+
+POLICY=$(git config fission.hookPolicy || echo block)
+# Without fission.hookThreshold, the repo's own threshold setting applies
+THRESHOLD=$(git config fission.hookThreshold)
+${fissionCommand()}
+
+failed=0
+while read -r local_ref local_sha remote_ref remote_sha; do
+  [ -z "$local_sha" ] && continue
+  # Branch deletion: nothing to check
+  case "$local_sha" in *[!0]*) ;; *) continue ;; esac
+
+  case "$remote_sha" in
+    *[!0]*) range="$remote_sha..$local_sha" ;;
+    *)
+      # New remote branch: check the commits no remote has yet
+      first=$(git rev-list --reverse "$local_sha" --not --remotes | head -n 1)
+      [ -z "$first" ] && continue
+      if git rev-parse -q --verify "$first^" >/dev/null; then
+        range="$first^..$local_sha"
+      else
+        range="$first..$local_sha"
+      fi
+      ;;
+  esac
+
+  eval "$FISSION --range \\"\\$range\\" \${THRESHOLD:+--threshold \\"\\$THRESHOLD\\"}" || failed=1
+done <<EOF
+$INPUT
+EOF
+
+if [ "$failed" -ne 0 ]; then
+  if [ "$POLICY" = "block" ]; then
+    echo "git-fission: push blocked, some commits are not atomic." >&2
+    echo "git-fission: bypass with GIT_FISSION_SKIP=1 git push" >&2
+    exit 1
+  fi
+  echo "git-fission: warning, some commits are not atomic." >&2
+fi
+exit 0
+`;
+}
+
+function postCommitScript(): string {
+  return `#!/bin/sh
+${MANAGED_MARKER} - remove with: git-fission hooks uninstall
+HOOK_DIR=$(dirname "$0")
+
+# Run the hook this one replaced first
+if [ -x "$HOOK_DIR/post-commit${CHAINED_SUFFIX}" ]; then
+  "$HOOK_DIR/post-commit${CHAINED_SUFFIX}" "$@"
+fi
+
+[ -n "$GIT_FISSION_SKIP" ] && exit 0
+
+# Without fission.hookThreshold, the repo's own threshold setting applies
+THRESHOLD=$(git config fission.hookThreshold)
+${fissionCommand()}
+
+# The commit already exists, so this hook can only warn
+eval "$FISSION --range HEAD^! \${THRESHOLD:+--threshold \\"\\$THRESHOLD\\"}" ||
+  echo "git-fission: warning, this commit is not atomic (split it with: git-fission --split HEAD)" >&2
+exit 0
+`;
+}
+
+function installHook(hooksDir: string, name: string, content: string): boolean {
+  const file = path.join(hooksDir, name);
+
+  // Keep a hook we didn't write by chaining to it
+  if (fs.existsSync(file) && !isManaged(file)) {
+    const chained = file + CHAINED_SUFFIX;
+    if (fs.existsSync(chained)) {
+      console.log(`${c.red}Error: ${name} exists and ${path.basename(chained)} is already taken${c.reset}`);
+      return false;
+    }
+    fs.renameSync(file, chained);
+    console.log(`  ${c.dim}Existing ${name} hook moved to ${path.basename(chained)} and chained${c.reset}`);
+  }
+
+  fs.writeFileSync(file, content, { mode: 0o755 });
+  fs.chmodSync(file, 0o755);
+  console.log(`  ${c.green}✓${c.reset} Installed ${name}`);
+  return true;
+}
+
+export function installHooks(options: HookInstallOptions): boolean {
+  const hooksDir = getHooksDir();
+  if (!hooksDir) {
+    console.log(`${c.red}Error: Could not find the hooks directory${c.reset}`);
+    return false;
+  }
+  if (fs.existsSync(hooksDir) && !fs.statSync(hooksDir).isDirectory()) {
+    console.log(`${c.red}Error: Hooks path ${hooksDir} is not a directory (check core.hooksPath)${c.reset}`);
+    return false;
+  }
+  fs.mkdirSync(hooksDir, { recursive: true });
+
+  if (options.policy) runGit(['config', 'fission.hookPolicy', options.policy]);
+  if (options.threshold !== undefined) runGit(['config', 'fission.hookThreshold', String(options.threshold)]);
+
+  console.log(`${c.bold}Installing git-fission hooks in ${hooksDir}${c.reset}`);
+  if (!installHook(hooksDir, 'pre-push', prePushScript())) return false;
+  if (options.postCommit && !installHook(hooksDir, 'post-commit', postCommitScript())) return false;
+
+  const { output: policy } = runGit(['config', 'fission.hookPolicy']);
+  console.log(`\n  Policy: ${policy || 'block'} (change with: git config fission.hookPolicy warn|block)`);
+  console.log(`  Bypass once with: GIT_FISSION_SKIP=1 git push`);
+  return true;
+}
+
+export function uninstallHooks(): boolean {
+  const hooksDir = getHooksDir();
+  if (!hooksDir) {
+    console.log(`${c.red}Error: Could not find the hooks directory${c.reset}`);
+    return false;
+  }
+
+  let removed = 0;
+  for (const name of MANAGED_HOOKS) {
+    const file = path.join(hooksDir, name);
+    if (!isManaged(file)) continue;
+
+    fs.unlinkSync(file);
+    removed++;
+    const chained = file + CHAINED_SUFFIX;
+    if (fs.existsSync(chained)) {
+      fs.renameSync(chained, file);
+      console.log(`  ${c.green}✓${c.reset} Removed ${name} and restored the original hook`);
+    } else {
+      console.log(`  ${c.green}✓${c.reset} Removed ${name}`);
+    }
+  }
+
+  if (!removed) console.log(`${c.dim}No git-fission hooks installed.${c.reset}`);
+  return true;
+}
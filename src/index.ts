@@ -7,30 +7,70 @@
  * your commits: analyze a large commit and split it into atomic pieces.
  */
 
-import { c, LOGO, DEFAULT_MODELS, DEFAULT_PROVIDER } from './config.js';
+import { c, LOGO, DEFAULT_THRESHOLD, DEFAULT_CONCURRENCY, DEFAULT_WEIGHTS, DEFAULT_MAX_SPLITS, DEFAULT_TIMEOUT, DEFAULT_CACHE_MAX_AGE, PROVIDERS } from './config.js';
 import { parseModelString } from './llm.js';
-import type { LLMProvider } from './types.js';
-import { runGit, getUnpushedCommits, getCommitInfo } from './git.js';
-import { checkCommitAtomicity, printReport } from './check.js';
-import { splitCommit } from './split.js';
+import type { AtomicityReport, CheckOptions, LLMProvider, OutputFormat, SplitExecutor, SplitGranularity, SplitStrategy } from './types.js';
+import { runGit, getUnpushedCommits, getCommitInfo, getCommitsInRange } from './git.js';
+import { checkCommitAtomicity, printReport, checkCommits, printRangeTable, parseWeights } from './check.js';
+import { splitCommit, splitStaged } from './split.js';
+import { rewordCommit, rewordRange } from './reword.js';
+import { formatReports } from './format.js';
+import { installHooks, uninstallHooks, type HookPolicy } from './hooks.js';
+import { continueReplay, abortReplay } from './replay.js';
+import { printBackups, restoreBackup } from './backup.js';
+import { loadSettings, printSettings } from './settings.js';
+import { LLMError } from './transport.js';
+import { pruneCache } from './cache.js';
+import { readPlanTarget } from './planfile.js';
 
 async function main() {
   const args = process.argv.slice(2);
 
-  // Determine default provider from env
-  const envProvider = process.env.GIT_FISSION_PROVIDER as LLMProvider | undefined;
-  const defaultProvider: LLMProvider = envProvider && ['bedrock', 'anthropic', 'openai', 'openrouter'].includes(envProvider)
-    ? envProvider
-    : DEFAULT_PROVIDER;
+  // Subcommands: "git-fission hooks install|uninstall", "config show", "cache prune"
+  const command = ['hooks', 'config', 'cache'].includes(args[0]) ? args.slice(0, 2).join(' ') : undefined;
+  if (command) args.splice(0, 2);
 
+  // Settings left undefined here fall back to git config, the repo config file and defaults
   const flags = {
     verbose: false,
-    model: process.env.GIT_FISSION_MODEL || DEFAULT_MODELS[defaultProvider],
-    provider: defaultProvider,
+    model: undefined as string | undefined,
+    provider: undefined as LLMProvider | undefined,
+    baseUrl: undefined as string | undefined,
+    timeout: undefined as number | undefined,
+    contextWindow: undefined as number | undefined,
+    cache: true,
+    olderThan: DEFAULT_CACHE_MAX_AGE,
     split: undefined as string | undefined,
+    staged: false,
+    planOut: undefined as string | undefined,
+    applyPlan: undefined as string | undefined,
+    trailers: undefined as string[] | undefined,
+    sign: undefined as boolean | string | undefined,
+    range: false,
+    rangeSpec: undefined as string | undefined,     // Without one, --range checks every unpushed commit
+    reword: undefined as string | undefined,
+    rewordRange: false,
+    rewordRangeSpec: undefined as string | undefined,
+    concurrency: DEFAULT_CONCURRENCY,
+    format: 'text' as OutputFormat,
+    threshold: undefined as number | undefined,
+    maxSplits: undefined as number | undefined,
+    weights: undefined as string | undefined,
+    offline: false,
+    postCommit: false,
+    policy: undefined as HookPolicy | undefined,
     dryRun: false,
     help: false,
     instruction: undefined as string | undefined,
+    granularity: 'hunk' as SplitGranularity,
+    verify: undefined as string | undefined,
+    executor: 'worktree' as SplitExecutor,
+    strategy: 'llm' as SplitStrategy,
+    continue: false,
+    abort: false,
+    undo: false,
+    undoId: undefined as string | undefined,
+    listBackups: false,
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -39,33 +79,141 @@ async function main() {
     else if (arg === '--model' || arg === '-m') flags.model = args[++i];
     else if (arg === '--provider' || arg === '-p') {
       const p = args[++i] as LLMProvider;
-      if (['bedrock', 'anthropic', 'openai', 'openrouter'].includes(p)) {
+      if (PROVIDERS.includes(p)) {
         flags.provider = p;
       }
     }
+    else if (arg === '--base-url') flags.baseUrl = args[++i];
+    else if (arg === '--context-window') flags.contextWindow = parseInt(args[++i]) || undefined;
+    else if (arg === '--no-cache') flags.cache = false;
+    else if (arg === '--older-than') flags.olderThan = Math.max(0, parseInt(args[++i]) || 0);
+    else if (arg === '--all') flags.olderThan = 0;
+    else if (arg === '--timeout') flags.timeout = parseFloat(args[++i]) || undefined;
     else if (arg === '--split') flags.split = args[++i];
+    else if (arg === '--staged') flags.staged = true;
+    else if (arg === '--plan-out') flags.planOut = args[++i];
+    else if (arg === '--apply-plan') flags.applyPlan = args[++i];
+    else if (arg === '--trailers') flags.trailers = args[++i] === 'none' ? [] : args[i].split(',').map(t => t.trim()).filter(Boolean);
+    else if (arg === '-S' || arg === '--gpg-sign') flags.sign = true;
+    else if (arg.startsWith('-S') || arg.startsWith('--gpg-sign=')) flags.sign = arg.replace(/^(-S|--gpg-sign=)/, '');
+    else if (arg === '--no-gpg-sign') flags.sign = false;
+    else if (arg === '--range') {
+      flags.range = true;
+      if (args[i + 1] && !args[i + 1].startsWith('-')) flags.rangeSpec = args[++i];
+    }
+    else if (arg === '--reword') flags.reword = args[++i];
+    else if (arg === '--reword-range') {
+      flags.rewordRange = true;
+      if (args[i + 1] && !args[i + 1].startsWith('-')) flags.rewordRangeSpec = args[++i];
+    }
+    else if (arg === '--threshold') {
+      const value = args[++i];
+      if (!/^\d+(\.\d+)?$/.test(value ?? '') || Number(value) > 100) {
+        console.error(`${c.red}Error: Invalid --threshold ${value ?? ''} (expected a number from 0 to 100)${c.reset}`);
+        process.exit(1);
+      }
+      flags.threshold = Number(value);
+    }
+    else if (arg === '--max-splits') flags.maxSplits = Math.max(2, parseInt(args[++i]) || DEFAULT_MAX_SPLITS);
+    else if (arg === '--weights') flags.weights = args[++i];
+    else if (arg === '--offline') flags.offline = true;
+    else if (arg === '--post-commit') flags.postCommit = true;
+    else if (arg === '--policy') {
+      const p = args[++i] as HookPolicy;
+      if (['warn', 'block'].includes(p)) {
+        flags.policy = p;
+      }
+    }
+    else if (arg === '--format' || arg === '-f') {
+      const f = args[++i] as OutputFormat;
+      if (['text', 'json', 'junit', 'sarif'].includes(f)) {
+        flags.format = f;
+      }
+    }
+    else if (arg === '--concurrency') flags.concurrency = Math.max(1, parseInt(args[++i]) || DEFAULT_CONCURRENCY);
     else if (arg === '--dry-run') flags.dryRun = true;
     else if (arg === '-h' || arg === '--help') flags.help = true;
     else if (arg === '--instruction' || arg === '-i') flags.instruction = args[++i];
+    else if (arg === '--granularity' || arg === '-g') {
+      const g = args[++i] as SplitGranularity;
+      if (['hunk', 'line'].includes(g)) {
+        flags.granularity = g;
+      }
+    }
+    else if (arg === '--verify') flags.verify = args[++i];
+    else if (arg === '--executor') {
+      const e = args[++i] as SplitExecutor;
+      if (['worktree', 'index'].includes(e)) {
+        flags.executor = e;
+      }
+    }
+    else if (arg === '--strategy') {
+      const s = args[++i] as SplitStrategy;
+      if (['llm', 'heuristic'].includes(s)) {
+        flags.strategy = s;
+      }
+    }
+    else if (arg === '--continue') flags.continue = true;
+    else if (arg === '--abort') flags.abort = true;
+    else if (arg === '--undo') {
+      flags.undo = true;
+      if (args[i + 1] && !args[i + 1].startsWith('-')) flags.undoId = args[++i];
+    }
+    else if (arg === '--list-backups') flags.listBackups = true;
   }
 
-  // Parse model string - supports "provider:model" format or just "model"
-  const llmConfig = parseModelString(flags.model, flags.provider);
-
   if (flags.help) {
     console.log(`
 ${LOGO}
 Usage: git-fission [options]
 
 By default, checks the last unpushed commit for atomicity.
-Use --split to split a non-atomic commit into smaller pieces.
+Use --range to check several commits, or --split to split a
+non-atomic commit into smaller pieces.
+
+Commands:
+  hooks install        Install a pre-push hook that checks pushed commits
+    --post-commit      Also warn about each new commit after it is made
+    --policy <p>       warn or block (default) when a commit is below --threshold
+  hooks uninstall      Remove the hooks and restore any hooks they replaced
+  config show          Print the resolved settings and where each came from
+  cache prune          Delete cached LLM responses older than ${DEFAULT_CACHE_MAX_AGE} days
+    --older-than <d>   Age in days instead of ${DEFAULT_CACHE_MAX_AGE}
+    --all              Delete every cached response
 
 Options:
   -v, --verbose        Verbose output
-  -p, --provider <p>   LLM provider: bedrock, anthropic, openai, openrouter
+  -p, --provider <p>   LLM provider: bedrock, anthropic, openai, openrouter, openai-compatible
   -m, --model <id>     Model ID (or use provider:model format)
+  --base-url <url>     Server URL for openai-compatible (default: local Ollama)
+  --context-window <n> Model context window in tokens (default: by model)
+  --no-cache           Ask the LLM again instead of reusing a cached response
+  --timeout <s>        Seconds before an LLM request is retried (default: ${DEFAULT_TIMEOUT})
+  --range [a..b]       Check every commit in a range (default: all unpushed)
+  --threshold <n>      Minimum score to count as atomic (default: ${DEFAULT_THRESHOLD})
+  --concurrency <n>    Parallel LLM calls for --range (default: ${DEFAULT_CONCURRENCY})
+  --weights <w>        Score blend, e.g. llm=0.7,files=0.2,message=0.1
+  --offline            Skip the LLM and score with heuristics only
+  -f, --format <f>     Check report format: text (default), json, junit, sarif
   --split <commit>     Split a commit into atomic pieces
+  --max-splits <n>     Most commits a split may produce (default: ${DEFAULT_MAX_SPLITS})
+  --staged             Split the staged changes into several commits
   --dry-run            Preview split without executing
+  --plan-out <file>    Save the split plan as JSON (e.g. with --dry-run, for review)
+  --apply-plan <file>  Split using a saved plan instead of asking the LLM
+  --trailers <keys>    Trailers copied to every split commit (default: Signed-off-by,Co-authored-by; 'none')
+  -S, --gpg-sign[=key] Sign the split commits (default: commit.gpgsign)
+  --no-gpg-sign        Don't sign the split commits
+  -g, --granularity    Split unit: hunk (default) or line
+  --verify <cmd>       Run a build/test command on every split commit
+  --executor <e>       worktree (default) or index (keeps uncommitted changes)
+  --strategy <s>       Split plan from the llm (default) or heuristic (no LLM call)
+  --continue           Resume a split after resolving replay conflicts
+  --abort              Abandon a split and restore the original branch
+  --undo [id]          Restore the branch from a split backup (newest by default)
+  --list-backups       List split backups
+  --reword <commit>    Write a better message for a commit and amend it
+  --reword-range [a..b] Reword every commit with a weak message (default: all unpushed)
   -i, --instruction    Custom instruction for the LLM
   -h, --help           Show help
 
@@ -74,10 +222,15 @@ Model format:
   --model anthropic:claude-3-5-sonnet-20241022  # Explicit provider
   --model openai:gpt-4o                       # OpenAI
   --model openrouter:anthropic/claude-3.5-haiku # OpenRouter
+  --model ollama:qwen2.5-coder:7b             # Local Ollama (openai-compatible)
 
 Environment:
-  GIT_FISSION_PROVIDER       Default provider (bedrock, anthropic, openai, openrouter)
+  GIT_FISSION_PROVIDER       Default provider (bedrock, anthropic, openai, openrouter, openai-compatible)
   GIT_FISSION_MODEL          Default model
+  GIT_FISSION_BASE_URL       Server URL for openai-compatible
+  GIT_FISSION_API_KEY        API key for openai-compatible (optional)
+  GIT_FISSION_TIMEOUT        Seconds per LLM request
+  GIT_FISSION_SKIP           Set to skip the installed hooks once
   ANTHROPIC_API_KEY          API key for Anthropic
   OPENAI_API_KEY             API key for OpenAI
   OPENROUTER_API_KEY         API key for OpenRouter
@@ -94,30 +247,183 @@ Environment:
     process.exit(1);
   }
 
+  const settings = loadSettings({
+    provider: flags.provider,
+    model: flags.model,
+    baseUrl: flags.baseUrl,
+    timeout: flags.timeout,
+    contextWindow: flags.contextWindow,
+    instruction: flags.instruction,
+    threshold: flags.threshold,
+    maxSplits: flags.maxSplits,
+    trailers: flags.trailers,
+  });
+  const { values } = settings;
+
+  // Parse model string - supports "provider:model" format or just "model"
+  const llmConfig = {
+    ...parseModelString(values.model, values.provider),
+    baseUrl: values.baseUrl,
+    timeout: values.timeout,
+    contextWindow: values.contextWindow,
+    cache: flags.cache,
+  };
+
+  if (command === 'config show') {
+    printSettings(settings);
+    process.exit(0);
+  }
+  if (command === 'cache prune') {
+    pruneCache(flags.olderThan);
+    process.exit(0);
+  }
+
+  // Hook management
+  if (command === 'hooks install') {
+    const success = installHooks({ postCommit: flags.postCommit, policy: flags.policy, threshold: flags.threshold });
+    process.exit(success ? 0 : 1);
+  }
+  if (command === 'hooks uninstall') process.exit(uninstallHooks() ? 0 : 1);
+  if (command) {
+    console.log(`${c.red}Error: Unknown command '${command}'. Use 'hooks install', 'hooks uninstall', 'config show' or 'cache prune'.${c.reset}`);
+    process.exit(1);
+  }
+
+  // Resume or abandon an interrupted split
+  if (flags.continue) process.exit(continueReplay() ? 0 : 1);
+  if (flags.abort) process.exit(abortReplay() ? 0 : 1);
+
+  // Backups of split history
+  if (flags.listBackups) {
+    printBackups();
+    process.exit(0);
+  }
+  if (flags.undo) process.exit(await restoreBackup(flags.undoId) ? 0 : 1);
+
+  // A saved plan names the commit it splits
+  if (flags.applyPlan && !flags.split && !flags.staged) {
+    const target = readPlanTarget(flags.applyPlan);
+    if (!target) {
+      console.log(`${c.red}Error: Could not read the commit to split from ${flags.applyPlan}${c.reset}`);
+      process.exit(1);
+    }
+    if (target === 'staged') flags.staged = true;
+    else flags.split = target;
+  }
+
+  // Reword mode
+  if (flags.reword || flags.rewordRange) {
+    const rewordOptions = { dryRun: flags.dryRun, trailers: values.trailers, sign: flags.sign };
+    if (flags.reword) process.exit(await rewordCommit(flags.reword, llmConfig, rewordOptions) ? 0 : 1);
+
+    const range = flags.rewordRangeSpec;
+    const hashes = range === undefined ? getUnpushedCommits().reverse() : getCommitsInRange(range);
+    if (!hashes) {
+      console.log(`${c.red}Error: Invalid range ${range}${c.reset}`);
+      process.exit(1);
+    }
+    process.exit(await rewordRange(hashes, llmConfig, rewordOptions) ? 0 : 1);
+  }
+
   // Split mode
-  if (flags.split) {
-    const success = await splitCommit(flags.split, llmConfig, flags.dryRun, flags.instruction);
+  if (flags.split || flags.staged) {
+    const splitOptions = {
+      dryRun: flags.dryRun,
+      instruction: values.instruction,
+      granularity: flags.granularity,
+      verify: flags.verify,
+      executor: flags.executor,
+      strategy: flags.strategy,
+      maxSplits: values.maxSplits,
+      planOut: flags.planOut,
+      applyPlan: flags.applyPlan,
+      trailers: values.trailers,
+      sign: flags.sign,
+    };
+    const success = flags.split
+      ? await splitCommit(flags.split, llmConfig, splitOptions)
+      : await splitStaged(llmConfig, splitOptions);
     process.exit(success ? 0 : 1);
   }
 
+  // Machine-readable formats print only the report to stdout
+  const format = flags.format;
+
+  const weights = flags.weights ? parseWeights(flags.weights) : DEFAULT_WEIGHTS;
+  if (!weights) {
+    console.error(`${c.red}Error: Invalid --weights ${flags.weights} (expected e.g. llm=0.7,files=0.2,message=0.1)${c.reset}`);
+    process.exit(1);
+  }
+  const checkOptions: CheckOptions = { weights, offline: flags.offline, ignore: values.ignore, threshold: values.threshold };
+  const analyzer = flags.offline ? 'heuristics only' : `LLM: ${llmConfig.provider}:${llmConfig.model.split('/').pop()}`;
+
+  // Range check mode - check every commit and print a summary table
+  if (flags.range) {
+    const threshold = values.threshold;
+    const passes = (r: AtomicityReport) => r.isAtomic;
+    const hashes = flags.rangeSpec === undefined ? getUnpushedCommits().reverse() : getCommitsInRange(flags.rangeSpec);
+    if (!hashes) {
+      console.error(`${c.red}Error: Invalid range ${flags.rangeSpec}${c.reset}`);
+      process.exit(1);
+    }
+    if (!hashes.length) {
+      if (format !== 'text') console.log(formatReports([], format, passes));
+      else console.log(`${c.green}✓ No commits to check${c.reset}`);
+      process.exit(0);
+    }
+
+    if (format === 'text') {
+      console.log(LOGO);
+      console.log(`${c.bold}Checking ${hashes.length} commits...${c.reset} [${analyzer}]`);
+    }
+
+    const reports = await checkCommits(hashes, llmConfig, checkOptions, flags.concurrency, format === 'text');
+    const failing = reports.filter(r => !passes(r));
+
+    if (format !== 'text') {
+      console.log(formatReports(reports, format, passes));
+      process.exit(failing.length ? 1 : 0);
+    }
+
+    if (flags.verbose) reports.forEach(r => printReport(r, true));
+    printRangeTable(reports, threshold);
+
+    console.log(`\n${c.bold}${'─'.repeat(50)}${c.reset}`);
+    if (!failing.length) {
+      console.log(`${c.green}✓ All ${reports.length} commits scored at least ${threshold}${c.reset}`);
+      process.exit(0);
+    }
+    console.log(`${c.red}✗ ${failing.length} of ${reports.length} commits scored below ${threshold}${c.reset}`);
+    console.log(`\n${c.yellow}Tip: Use 'git-fission --split <commit>' to split them.${c.reset}`);
+    process.exit(1);
+  }
+
   // Check mode - only check the last unpushed commit
+  const passes = (r: AtomicityReport) => r.isAtomic;
   const commits = getUnpushedCommits(1);
   if (!commits.length) {
-    console.log(`${c.green}✓ No unpushed commits to check${c.reset}`);
+    if (format !== 'text') console.log(formatReports([], format, passes));
+    else console.log(`${c.green}✓ No unpushed commits to check${c.reset}`);
     process.exit(0);
   }
 
   const hash = commits[0];
-  const commit = getCommitInfo(hash, true);
+  const commit = getCommitInfo(hash, true, values.ignore);
   if (!commit) {
-    console.log(`${c.red}Error: Could not get info for ${hash.slice(0, 8)}${c.reset}`);
+    console.error(`${c.red}Error: Could not get info for ${hash.slice(0, 8)}${c.reset}`);
     process.exit(1);
   }
 
+  if (format !== 'text') {
+    const report = await checkCommitAtomicity(commit, llmConfig, checkOptions, false);
+    console.log(formatReports([report], format, passes));
+    process.exit(passes(report) ? 0 : 1);
+  }
+
   console.log(LOGO);
-  console.log(`${c.bold}Checking last unpushed commit...${c.reset} [LLM: ${llmConfig.provider}:${llmConfig.model.split('/').pop()}]`);
+  console.log(`${c.bold}Checking last unpushed commit...${c.reset} [${analyzer}]`);
 
-  const report = await checkCommitAtomicity(commit, llmConfig);
+  const report = await checkCommitAtomicity(commit, llmConfig, checkOptions);
   printReport(report, flags.verbose);
 
   console.log(`\n${c.bold}${'─'.repeat(50)}${c.reset}`);
@@ -132,4 +438,11 @@ Environment:
   }
 }
 
-main().catch(console.error);
+main().catch(e => {
+  if (e instanceof LLMError && e.kind === 'cancelled') {
+    console.error('Cancelled.');
+    process.exit(130);
+  }
+  console.error(e);
+  process.exit(1);
+});
@@ -3,46 +3,82 @@
  */
 
 import { BedrockRuntimeClient, ConverseCommand } from '@aws-sdk/client-bedrock-runtime';
-import fetch from 'node-fetch';
-import type { CommitInfo, LLMAnalysis, LLMConfig, LLMProvider, SplitPlan } from './types.js';
+import * as path from 'path';
+import type { CommitInfo, LLMAnalysis, LLMConfig, LLMProvider, SplitGranularity, SplitPlan } from './types.js';
+import {
+  c,
+  CONTEXT_WINDOWS,
+  DEFAULT_BASE_URL,
+  DEFAULT_CONTEXT_WINDOW,
+  DEFAULT_MAX_SPLITS,
+  DEFAULT_TIMEOUT,
+  LOCAL_CONTEXT_WINDOW,
+  PROVIDERS,
+} from './config.js';
+import { LLMError, httpError, postJSON, sendWithRetries } from './transport.js';
+import { cacheKey, readCache, writeCache, printCacheHit } from './cache.js';
+import { buildSymbolGraph, forwardReferences, orderByDependencies } from './symbols.js';
+import { scratchTree, treeOf } from './plumbing.js';
+import type { SymbolEdge } from './symbols.js';
+
+/**
+ * Return the response text, treating an empty response as an error
+ */
+function textOrError(text: string | undefined, provider: string): string {
+  if (!text) throw new LLMError('api', `${provider} returned an empty response`);
+  return text;
+}
+
+/**
+ * Map AWS SDK exceptions to LLM errors
+ */
+function bedrockError(e: any): LLMError {
+  const status = e?.$metadata?.httpStatusCode;
+  switch (e?.name) {
+    case 'ThrottlingException':
+      return new LLMError('rate-limit', e.message);
+    case 'AccessDeniedException':
+    case 'UnrecognizedClientException':
+    case 'ExpiredTokenException':
+    case 'CredentialsProviderError':
+      return new LLMError('auth', e.message);
+    case 'ServiceQuotaExceededException':
+      return new LLMError('quota', e.message);
+    case 'ModelTimeoutException':
+      return new LLMError('timeout', e.message);
+  }
+  return status ? httpError(status, e.message) : new LLMError('network', e?.message || String(e));
+}
 
 /**
  * Call AWS Bedrock
  */
-async function callBedrock(prompt: string, model: string, maxTokens: number): Promise<string | null> {
+async function callBedrock(prompt: string, model: string, maxTokens: number, signal: AbortSignal): Promise<string> {
   const bearerToken = process.env.AWS_BEARER_TOKEN_BEDROCK;
   const region = process.env.AWS_REGION || 'us-west-2';
 
   if (bearerToken) {
     const endpoint = `https://bedrock-runtime.${region}.amazonaws.com/model/${model}/converse`;
-    const body = JSON.stringify({
+    const data = await postJSON(endpoint, { 'Authorization': `Bearer ${bearerToken}` }, {
       messages: [{ role: 'user', content: [{ text: prompt }] }],
       inferenceConfig: { maxTokens, temperature: 0.1 },
       anthropic_beta: ['context-1m-2025-08-07']
-    });
-
-    try {
-      const resp = await fetch(endpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${bearerToken}` },
-        body,
-      });
-      const data = await resp.json() as any;
-      return data.output?.message?.content?.[0]?.text || null;
-    } catch (e) {
-      return null;
-    }
+    }, signal);
+    return textOrError(data.output?.message?.content?.[0]?.text, 'Bedrock');
   } else {
-    const client = new BedrockRuntimeClient({ region });
+    // Retries are handled by the shared transport
+    const client = new BedrockRuntimeClient({ region, maxAttempts: 1 });
     try {
       const resp = await client.send(new ConverseCommand({
         modelId: model,
         messages: [{ role: 'user', content: [{ text: prompt }] }],
         inferenceConfig: { maxTokens, temperature: 0.1 },
-      }));
-      return (resp.output?.message?.content?.[0] as any)?.text || null;
+      }), { abortSignal: signal as any });
+      return textOrError((resp.output?.message?.content?.[0] as any)?.text, 'Bedrock');
     } catch (e) {
-      return null;
+      // Aborts (timeout, Ctrl-C) are classified by the transport
+      if (e instanceof LLMError || (e as any)?.name === 'AbortError') throw e;
+      throw bedrockError(e);
     }
   }
 }
@@ -50,145 +86,118 @@ async function callBedrock(prompt: string, model: string, maxTokens: number): Pr
 /**
  * Call Anthropic API directly
  */
-async function callAnthropic(prompt: string, model: string, maxTokens: number, apiKey?: string): Promise<string | null> {
+async function callAnthropic(prompt: string, model: string, maxTokens: number, signal: AbortSignal, apiKey?: string): Promise<string> {
   const key = apiKey || process.env.ANTHROPIC_API_KEY;
-  if (!key) {
-    console.error('ANTHROPIC_API_KEY not set');
-    return null;
-  }
+  if (!key) throw new LLMError('auth', 'ANTHROPIC_API_KEY not set');
 
-  try {
-    const resp = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': key,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model,
-        max_tokens: maxTokens,
-        temperature: 0.1,
-        messages: [{ role: 'user', content: prompt }],
-      }),
-    });
-    const data = await resp.json() as any;
-    if (data.error) {
-      console.error('Anthropic API error:', data.error.message);
-      return null;
-    }
-    return data.content?.[0]?.text || null;
-  } catch (e) {
-    console.error('Anthropic API call failed:', e);
-    return null;
-  }
+  const data = await postJSON('https://api.anthropic.com/v1/messages', {
+    'x-api-key': key,
+    'anthropic-version': '2023-06-01',
+  }, {
+    model,
+    max_tokens: maxTokens,
+    temperature: 0.1,
+    messages: [{ role: 'user', content: prompt }],
+  }, signal);
+  return textOrError(data.content?.[0]?.text, 'Anthropic');
 }
 
 /**
  * Call OpenAI API
  */
-async function callOpenAI(prompt: string, model: string, maxTokens: number, apiKey?: string): Promise<string | null> {
+async function callOpenAI(prompt: string, model: string, maxTokens: number, signal: AbortSignal, apiKey?: string): Promise<string> {
   const key = apiKey || process.env.OPENAI_API_KEY;
-  if (!key) {
-    console.error('OPENAI_API_KEY not set');
-    return null;
-  }
+  if (!key) throw new LLMError('auth', 'OPENAI_API_KEY not set');
 
-  try {
-    const resp = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${key}`,
-      },
-      body: JSON.stringify({
-        model,
-        max_completion_tokens: maxTokens,
-        temperature: 1,
-        messages: [{ role: 'user', content: prompt }],
-      }),
-    });
-    const data = await resp.json() as any;
-    if (data.error) {
-      console.error('OpenAI API error:', data.error.message);
-      return null;
-    }
-    return data.choices?.[0]?.message?.content || null;
-  } catch (e) {
-    console.error('OpenAI API call failed:', e);
-    return null;
-  }
+  const data = await postJSON('https://api.openai.com/v1/chat/completions', {
+    'Authorization': `Bearer ${key}`,
+  }, {
+    model,
+    max_completion_tokens: maxTokens,
+    temperature: 1,
+    messages: [{ role: 'user', content: prompt }],
+  }, signal);
+  return textOrError(data.choices?.[0]?.message?.content, 'OpenAI');
 }
 
 /**
  * Call OpenRouter API
  */
-async function callOpenRouter(prompt: string, model: string, maxTokens: number, apiKey?: string): Promise<string | null> {
+async function callOpenRouter(prompt: string, model: string, maxTokens: number, signal: AbortSignal, apiKey?: string): Promise<string> {
   const key = apiKey || process.env.OPENROUTER_API_KEY;
-  if (!key) {
-    console.error('OPENROUTER_API_KEY not set');
-    return null;
-  }
+  if (!key) throw new LLMError('auth', 'OPENROUTER_API_KEY not set');
 
-  try {
-    const resp = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${key}`,
-      },
-      body: JSON.stringify({
-        model,
-        max_tokens: maxTokens,
-        temperature: 0.1,
-        messages: [{ role: 'user', content: prompt }],
-      }),
-    });
-    const data = await resp.json() as any;
-    if (data.error) {
-      console.error('OpenRouter API error:', data.error.message);
-      return null;
-    }
-    return data.choices?.[0]?.message?.content || null;
-  } catch (e) {
-    console.error('OpenRouter API call failed:', e);
-    return null;
-  }
+  const data = await postJSON('https://openrouter.ai/api/v1/chat/completions', {
+    'Authorization': `Bearer ${key}`,
+  }, {
+    model,
+    max_tokens: maxTokens,
+    temperature: 0.1,
+    messages: [{ role: 'user', content: prompt }],
+  }, signal);
+  return textOrError(data.choices?.[0]?.message?.content, 'OpenRouter');
 }
 
 /**
- * Main LLM call function - routes to the appropriate provider
+ * Call a self-hosted OpenAI-compatible server (Ollama, llama.cpp, vLLM, ...).
+ * The API key is optional since local servers usually don't need one.
  */
-export async function callLLM(prompt: string, config: LLMConfig, maxTokens = 1024): Promise<string | null> {
-  switch (config.provider) {
-    case 'bedrock':
-      return callBedrock(prompt, config.model, maxTokens);
-    case 'anthropic':
-      return callAnthropic(prompt, config.model, maxTokens, config.apiKey);
-    case 'openai':
-      return callOpenAI(prompt, config.model, maxTokens, config.apiKey);
-    case 'openrouter':
-      return callOpenRouter(prompt, config.model, maxTokens, config.apiKey);
-    default:
-      console.error(`Unknown provider: ${config.provider}`);
-      return null;
-  }
+async function callOpenAICompatible(prompt: string, model: string, maxTokens: number, signal: AbortSignal, baseUrl?: string, apiKey?: string): Promise<string> {
+  const url = (baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const key = apiKey || process.env.GIT_FISSION_API_KEY;
+
+  const data = await postJSON(`${url}/chat/completions`, key ? { 'Authorization': `Bearer ${key}` } : {}, {
+    model,
+    max_tokens: maxTokens,
+    temperature: 0.1,
+    messages: [{ role: 'user', content: prompt }],
+  }, signal);
+  return textOrError(data.choices?.[0]?.message?.content, url);
+}
+
+/**
+ * Main LLM call function - routes to the appropriate provider.
+ * Throws an LLMError describing the failure.
+ */
+export async function callLLM(prompt: string, config: LLMConfig, maxTokens = 1024): Promise<string> {
+  return sendWithRetries(signal => {
+    switch (config.provider) {
+      case 'bedrock':
+        return callBedrock(prompt, config.model, maxTokens, signal);
+      case 'anthropic':
+        return callAnthropic(prompt, config.model, maxTokens, signal, config.apiKey);
+      case 'openai':
+        return callOpenAI(prompt, config.model, maxTokens, signal, config.apiKey);
+      case 'openrouter':
+        return callOpenRouter(prompt, config.model, maxTokens, signal, config.apiKey);
+      case 'openai-compatible':
+        return callOpenAICompatible(prompt, config.model, maxTokens, signal, config.baseUrl, config.apiKey);
+      default:
+        throw new LLMError('api', `Unknown provider: ${config.provider}`);
+    }
+  }, config.timeout ?? DEFAULT_TIMEOUT);
 }
 
 /**
  * Parse model string into LLMConfig
  * Supports formats:
  *   - "provider:model" (e.g., "anthropic:claude-3-5-sonnet-20241022")
+ *   - "ollama:model" (openai-compatible, e.g., "ollama:qwen2.5-coder:7b")
  *   - "model" (uses default provider from env or bedrock)
  */
 export function parseModelString(modelStr: string, defaultProvider: LLMProvider = 'bedrock'): LLMConfig {
   const colonIndex = modelStr.indexOf(':');
 
   // Check if it looks like "provider:model"
-  const providers: LLMProvider[] = ['bedrock', 'anthropic', 'openai', 'openrouter'];
   if (colonIndex > 0) {
     const prefix = modelStr.substring(0, colonIndex);
-    if (providers.includes(prefix as LLMProvider)) {
+    if (prefix === 'ollama') {
+      return {
+        provider: 'openai-compatible',
+        model: modelStr.substring(colonIndex + 1),
+      };
+    }
+    if (PROVIDERS.includes(prefix as LLMProvider)) {
       return {
         provider: prefix as LLMProvider,
         model: modelStr.substring(colonIndex + 1),
@@ -204,10 +213,14 @@ export function parseModelString(modelStr: string, defaultProvider: LLMProvider
 }
 
 export async function analyzeWithLLM(commit: CommitInfo, config: LLMConfig): Promise<LLMAnalysis | null> {
+  const key = cacheKey('analyze', config, commit.diff || '', undefined, { message: commit.message, body: commit.body, files: commit.files });
+  const cached = readCache<LLMAnalysis>(key, config);
+  if (cached) return cached;
+
   const filesSum = commit.files.slice(0, 20).map(f => `  - ${f}`).join('\n');
   const prompt = `Analyze this git commit and determine if it is ATOMIC (does exactly one logical thing).
 
-**Commit Message:** ${commit.message}
+${formatOriginalMessage(commit, 'Commit Message')}
 **Stats:** ${commit.filesChanged} files changed, +${commit.insertions}/-${commit.deletions} lines
 **Files Changed:**
 ${filesSum}
@@ -229,36 +242,170 @@ Respond in JSON format:
 Only output the JSON.`;
 
   const response = await callLLM(prompt, config);
-  if (!response) return null;
 
   try {
     const match = response.match(/\{[\s\S]*\}/);
     if (!match) return null;
     const result = JSON.parse(match[0]);
-    return {
+    const analysis: LLMAnalysis = {
       isAtomic: result.is_atomic,
       confidence: result.confidence,
       reasoning: result.reasoning,
       concerns: result.concerns || [],
       splitSuggestion: result.split_suggestion,
     };
+    writeCache(key, 'analyze', analysis);
+    return analysis;
+  } catch { return null; }
+}
+
+/**
+ * Ask the LLM for a conventional-commit message (subject and wrapped body)
+ * describing the commit's diff, to replace its current message
+ */
+export async function generateCommitMessage(commit: CommitInfo, config: LLMConfig, problems: string[]): Promise<string | null> {
+  const key = cacheKey('reword', config, commit.diff || '', undefined, { message: commit.message, body: commit.body, problems });
+  const cached = readCache<{ message: string; body?: string }>(key, config);
+  if (cached) return commitMessage(cached.message, cached.body);
+
+  const problemList = problems.length ? `\n**Problems with the current message:**\n${problems.map(p => `- ${p}`).join('\n')}\n` : '';
+  const prompt = `Write a better commit message for this git commit.
+
+${formatOriginalMessage(commit, 'Current Message')}
+${problemList}
+**Stats:** ${commit.filesChanged} files changed, +${commit.insertions}/-${commit.deletions} lines
+
+**Diff (may be truncated):**
+\`\`\`
+${commit.diff || '(diff not available)'}
+\`\`\`
+
+Rules:
+1. The subject follows Conventional Commits: type(scope): summary, where type is one of feat, fix, docs, style, refactor, perf, test, build, ci, chore or revert
+2. The subject is imperative ("Add", not "Added") and at most 72 characters
+3. The body explains what the commit changes and why, in 1-3 short paragraphs
+4. Keep the reasons and references (issue numbers, names) the current message gives; describe only what the diff shows
+
+Respond in JSON:
+{
+  "message": "fix(auth): Reject expired tokens on login",
+  "body": "Why this change is needed and what it does, in plain sentences."
+}
+
+Only output the JSON.`;
+
+  const response = await callLLM(prompt, config);
+
+  try {
+    const match = response.match(/\{[\s\S]*\}/);
+    if (!match) return null;
+    const result = JSON.parse(match[0]);
+    if (typeof result.message !== 'string' || !result.message.trim()) return null;
+    const suggestion = { message: result.message, body: typeof result.body === 'string' ? result.body : undefined };
+    writeCache(key, 'reword', suggestion);
+    return commitMessage(suggestion.message, suggestion.body);
   } catch { return null; }
 }
 
-import { parseDiffIntoHunks, rebuildPatchFromHunks, type ParsedFileDiff } from './git.js';
+import {
+  parseDiffIntoHunks,
+  rebuildPatchFromHunks,
+  parseDiffWithLines,
+  buildPatchesWithFileTracking,
+  runGit,
+  type ParsedFileDiff,
+  type ParsedDiffWithLines,
+} from './git.js';
+
+// Rough prompt size estimate; kept low so prompts stay inside the window
+const CHARS_PER_TOKEN = 3;
+const PROMPT_OVERHEAD_TOKENS = 1500;    // Instructions and commit details around the hunks
+
+/**
+ * Context window of the configured model, in tokens
+ */
+export function getContextWindow(config: LLMConfig): number {
+  if (config.contextWindow) return config.contextWindow;
+  if (config.provider === 'openai-compatible') return LOCAL_CONTEXT_WINDOW;
+  return CONTEXT_WINDOWS.find(([pattern]) => pattern.test(config.model))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Tokens reserved for a classification response
+ */
+function outputTokens(config: LLMConfig): number {
+  return Math.min(8192, Math.floor(getContextWindow(config) / 4));
+}
+
+/**
+ * Characters of diff display that fit in one classification prompt
+ */
+function promptBudget(config: LLMConfig): number {
+  const tokens = getContextWindow(config) - outputTokens(config) - PROMPT_OVERHEAD_TOKENS;
+  return Math.max(2000, tokens * CHARS_PER_TOKEN);
+}
 
 /**
  * Hunk classification result from LLM
  */
 export interface HunkClassification {
   commits: Array<{
-    message: string;
+    message: string;      // Subject line
+    body?: string;        // Message body explaining what and why
     description: string;
     hunkIds: number[];
   }>;
   reasoning: string;
 }
 
+/**
+ * How to write the subject and body of each proposed commit
+ */
+const MESSAGE_GUIDANCE = `For each commit, "message" is the subject line (imperative, at most 72 characters) and "body" explains what the commit changes and why, in 1-3 short paragraphs. Reuse the reasons given in the original commit message where they apply.`;
+
+/**
+ * The original commit message for a prompt, with its body when it has one
+ */
+function formatOriginalMessage(commit: CommitInfo, label = 'Original Commit Message'): string {
+  if (!commit.body) return `**${label}:** ${commit.message}`;
+  return `**${label}:** ${commit.message}\n**${label} Body:**\n${commit.body}\n`;
+}
+
+/**
+ * Wrap text to `width` columns, keeping paragraphs and list items apart
+ */
+function wrapText(text: string, width = 72): string {
+  const wrapLine = (line: string, indent: string) => {
+    const out: string[] = [];
+    let current = '';
+    for (const word of line.split(/\s+/).filter(Boolean)) {
+      if (current && current.length + 1 + word.length > width) {
+        out.push(current);
+        current = indent + word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) out.push(current);
+    return out.join('\n');
+  };
+
+  return text.trim().split(/\n\s*\n/).map(paragraph => {
+    const lines = paragraph.split('\n');
+    // A list keeps one item per line, continued with a hanging indent
+    if (lines.every(l => /^\s*([-*]|\d+\.)\s/.test(l))) return lines.map(l => wrapLine(l.trim(), '  ')).join('\n');
+    return wrapLine(lines.join(' '), '');
+  }).join('\n\n');
+}
+
+/**
+ * Full commit message from a subject and an optional body
+ */
+function commitMessage(subject: string, body?: string): string {
+  const wrapped = body ? wrapText(body) : '';
+  return wrapped ? `${subject.trim()}\n\n${wrapped}` : subject.trim();
+}
+
 /**
  * Format hunk content for LLM display - show actual changes
  */
@@ -278,36 +425,76 @@ function formatHunkForLLM(hunk: { id: number; startLine: number; content: string
 }
 
 /**
- * Ask LLM to classify hunks into commits
+ * Format hunks with their IDs and actual diff content for the LLM
  */
-export async function classifyHunks(
-  commit: CommitInfo,
-  files: ParsedFileDiff[],
-  config: LLMConfig,
-  instruction?: string
-): Promise<HunkClassification | null> {
-  // Build display for LLM - show hunks with their IDs and actual diff content
+function formatHunksForLLM(files: ParsedFileDiff[]): string {
   let hunksDisplay = '';
   for (const file of files) {
     hunksDisplay += `\n**${file.filePath}:**\n`;
     for (const hunk of file.hunks) {
-      hunksDisplay += `  [Hunk ${hunk.id}] starting at line ${hunk.startLine}:\n`;
+      hunksDisplay += hunk.fileLevel
+        ? `  [Hunk ${hunk.id}] whole-file change (${hunk.summary}):\n`
+        : `  [Hunk ${hunk.id}] starting at line ${hunk.startLine}:\n`;
       hunksDisplay += formatHunkForLLM(hunk) + '\n';
     }
   }
+  return hunksDisplay;
+}
+
+/**
+ * One batch of a commit too large to classify in a single prompt
+ */
+interface BatchPart {
+  index: number;    // 1-based
+  total: number;
+}
+
+/**
+ * Format why a previous split plan was rejected, so the LLM can avoid repeating it
+ */
+function formatFeedback(feedback?: string): string {
+  if (!feedback) return '';
+  return `\n**Previous Attempt Rejected:** A previous split of this commit was rejected. Produce a different split that avoids this problem:\n\`\`\`\n${feedback}\n\`\`\`\n`;
+}
+
+/**
+ * Ask LLM to classify hunks into commits
+ */
+export async function classifyHunks(
+  commit: CommitInfo,
+  files: ParsedFileDiff[],
+  config: LLMConfig,
+  instruction?: string,
+  feedback?: string,
+  maxSplits = DEFAULT_MAX_SPLITS,
+  part?: BatchPart
+): Promise<HunkClassification | null> {
+  const hunkIds = files.flatMap(f => f.hunks.map(h => h.id));
+  const key = cacheKey('classify-hunks', config, commit.diff || '', instruction, { message: commit.message, body: commit.body, feedback, maxSplits, hunkIds: part ? hunkIds : undefined });
+  const cached = readCache<HunkClassification>(key, config);
+  if (cached) {
+    printCacheHit();
+    return cached;
+  }
 
+  const hunksDisplay = formatHunksForLLM(files);
   const customInstruction = instruction ? `\n**Custom Instruction:** ${instruction}\n` : '';
+  const previousAttempt = formatFeedback(feedback);
+  const partNote = part
+    ? `\n**Part ${part.index} of ${part.total}:** This commit is too large for one request, so only some of its hunks are shown. Group just these hunks; the groups from all parts are merged afterwards.\n`
+    : '';
+  const groupRange = part ? `1-${maxSplits}` : `2-${maxSplits}`;
 
   const prompt = `You are a git expert. Analyze this commit and decide how to split it into atomic commits.
 
-**Original Commit Message:** ${commit.message}
+${formatOriginalMessage(commit)}
 **Files Changed:** ${commit.filesChanged}
 **Stats:** +${commit.insertions}/-${commit.deletions} lines
-${customInstruction}
+${customInstruction}${previousAttempt}${partNote}
 **Hunks to classify (each hunk is a contiguous block of changes):**
 ${hunksDisplay}
 
-TASK: Classify each hunk into one of 2-5 atomic commits. Each commit should do ONE logical thing.
+TASK: Classify each hunk into one of ${groupRange} atomic commits. Each commit should do ONE logical thing.
 
 Rules:
 1. Every hunk ID must appear in exactly ONE commit
@@ -324,28 +511,534 @@ Respond in JSON:
   "commits": [
     {
       "message": "feat(auth): Add login function",
+      "body": "Why this change is needed and what it does, in plain sentences.",
       "description": "What this commit does",
       "hunkIds": [0, 2, 5]
     }
   ]
 }
 
+${MESSAGE_GUIDANCE}
 If the commit is already atomic, return a single commit with all hunk IDs.
 Only output the JSON.`;
 
-  const response = await callLLM(prompt, config, 8192);
-  if (!response) {
-    console.error('  LLM returned no response');
+  const response = await callLLM(prompt, config, outputTokens(config));
+
+  try {
+    const match = response.match(/\{[\s\S]*\}/);
+    if (!match) {
+      console.error('  No JSON found in response:', response.slice(0, 200));
+      return null;
+    }
+    const classification: HunkClassification = JSON.parse(match[0]);
+    writeCache(key, 'classify-hunks', classification);
+    return classification;
+  } catch (e) {
+    console.error('  Failed to parse JSON:', e);
+    return null;
+  }
+}
+
+/**
+ * Check that commits partition the given hunk or line IDs: every ID in
+ * exactly one commit, no unknown IDs, no empty commits, and at most
+ * `maxSplits` commits. Returns the violations found (empty if valid).
+ */
+function validatePartition(
+  commits: Array<{ message?: string; ids: unknown }>,
+  ids: number[],
+  maxSplits: number,
+  unit: 'hunk' | 'line'
+): string[] {
+  const Unit = unit === 'hunk' ? 'Hunk' : 'Line';
+  const violations: string[] = [];
+  const known = new Set(ids);
+  const seen = new Map<number, number>(); // ID -> commit number
+
+  if (commits.length > maxSplits) {
+    violations.push(`${commits.length} commits proposed, but the maximum is ${maxSplits}`);
+  }
+
+  commits.forEach((commit, i) => {
+    const n = i + 1;
+    if (!commit.message?.trim()) violations.push(`Commit ${n} has no message`);
+    if (!Array.isArray(commit.ids) || commit.ids.length === 0) {
+      violations.push(`Commit ${n} has no ${unit}s`);
+      return;
+    }
+    for (const id of commit.ids) {
+      if (!known.has(id)) {
+        violations.push(`Commit ${n} lists ${unit} ${JSON.stringify(id)}, which does not exist`);
+      } else if (seen.has(id)) {
+        const first = seen.get(id);
+        violations.push(first === n ? `Commit ${n} lists ${unit} ${id} twice` : `${Unit} ${id} is in both commit ${first} and commit ${n}`);
+      } else {
+        seen.set(id, n);
+      }
+    }
+  });
+
+  const missing = ids.filter(id => !seen.has(id));
+  if (missing.length) violations.push(`${Unit}(s) ${missing.join(', ')} are not in any commit`);
+
+  return violations;
+}
+
+/**
+ * Check that a hunk classification is a complete partition of the hunks
+ * (see validatePartition). A single commit is allowed, as saved and edited
+ * plans may have one (generateSplitPlan handles the LLM's single-commit
+ * answer before validating). Returns the violations found (empty if valid).
+ */
+export function validateClassification(
+  classification: HunkClassification,
+  hunkIds: number[],
+  maxSplits = DEFAULT_MAX_SPLITS
+): string[] {
+  if (!Array.isArray(classification.commits) || classification.commits.length === 0) {
+    return ['"commits" must be a non-empty array'];
+  }
+  const commits = classification.commits.map(commit => ({ message: commit.message, ids: commit.hunkIds }));
+  return validatePartition(commits, hunkIds, maxSplits, 'hunk');
+}
+
+/**
+ * Send an invalid classification back to the LLM with its violations,
+ * asking for a corrected one
+ */
+async function repairClassification(
+  commit: CommitInfo,
+  files: ParsedFileDiff[],
+  classification: HunkClassification,
+  violations: string[],
+  config: LLMConfig,
+  maxSplits = DEFAULT_MAX_SPLITS
+): Promise<HunkClassification | null> {
+  const key = cacheKey('repair-hunks', config, commit.diff || '', undefined, { body: commit.body, classification, maxSplits });
+  const cached = readCache<HunkClassification>(key, config);
+  if (cached) {
+    printCacheHit();
+    return cached;
+  }
+
+  const hunkList = files.flatMap(f => f.hunks.map(h => `  [Hunk ${h.id}] ${f.filePath} ${h.header}`)).join('\n');
+
+  const prompt = `You are a git expert. You were asked to split a commit into atomic commits by assigning each hunk to one commit, but your answer is invalid.
+
+${formatOriginalMessage(commit)}
+
+**Your previous answer:**
+\`\`\`json
+${JSON.stringify(classification, null, 2)}
+\`\`\`
+
+**Problems with it:**
+${violations.map(v => `- ${v}`).join('\n')}
+
+**The hunks that exist:**
+${hunkList}
+
+TASK: Return a corrected answer. Keep your grouping where it was valid, and fix only the problems above.
+
+Rules:
+1. Every hunk ID listed above must appear in exactly ONE commit
+2. Use only the hunk IDs listed above
+3. Every commit must have a message and at least one hunk
+4. Use at most ${maxSplits} commits (a single commit means the change is already atomic)
+5. No commit may use a symbol that is first defined in a later commit; hunks that depend on each other must share a commit
+
+Respond in the same JSON format:
+{
+  "reasoning": "Brief explanation of how you're splitting this",
+  "commits": [
+    {
+      "message": "feat(auth): Add login function",
+      "body": "Why this change is needed and what it does, in plain sentences.",
+      "description": "What this commit does",
+      "hunkIds": [0, 2, 5]
+    }
+  ]
+}
+
+Only output the JSON.`;
+
+  const response = await callLLM(prompt, config, outputTokens(config));
+
+  try {
+    const match = response.match(/\{[\s\S]*\}/);
+    if (!match) {
+      console.error('  No JSON found in response:', response.slice(0, 200));
+      return null;
+    }
+    const repaired: HunkClassification = JSON.parse(match[0]);
+    writeCache(key, 'repair-hunks', repaired);
+    return repaired;
+  } catch (e) {
+    console.error('  Failed to parse JSON:', e);
+    return null;
+  }
+}
+
+/**
+ * Check a classification's partition of the hunks, then put its commits in
+ * dependency order. Returns the ordered classification, or the violations.
+ */
+function checkClassification(
+  classification: HunkClassification,
+  hunkIds: number[],
+  edges: SymbolEdge[],
+  maxSplits: number
+): HunkClassification | string[] {
+  const violations = validateClassification(classification, hunkIds, maxSplits);
+  if (violations.length) return violations;
+
+  // A commit must not use a symbol that only a later commit defines
+  const ordered = orderByDependencies(classification.commits, edges);
+  if (!ordered) return forwardReferences(classification.commits, edges);
+  if (ordered.some((commit, i) => commit !== classification.commits[i])) {
+    console.log(`  ${c.yellow}Reordered the commits so that symbols are defined before they are used${c.reset}`);
+  }
+  return { ...classification, commits: ordered };
+}
+
+/**
+ * Validate a classification, giving the LLM one chance to repair it.
+ * Returns null (after printing the violations) if it is still invalid.
+ */
+async function ensureValidClassification(
+  commit: CommitInfo,
+  files: ParsedFileDiff[],
+  classification: HunkClassification,
+  config: LLMConfig,
+  maxSplits = DEFAULT_MAX_SPLITS
+): Promise<HunkClassification | null> {
+  const hunkIds = files.flatMap(f => f.hunks.map(h => h.id));
+  const edges = buildSymbolGraph(files);
+  const checked = checkClassification(classification, hunkIds, edges, maxSplits);
+  if (!Array.isArray(checked)) return checked;
+  const violations = checked;
+
+  console.log(`  ${c.yellow}LLM classification is invalid; asking it to repair:${c.reset}`);
+  for (const v of violations) console.log(`    ${c.dim}- ${v}${c.reset}`);
+
+  const repaired = await repairClassification(commit, files, classification, violations, config, maxSplits);
+  if (!repaired) return null;
+
+  const remaining = checkClassification(repaired, hunkIds, edges, maxSplits);
+  if (!Array.isArray(remaining)) {
+    console.log(`  ${c.green}✓${c.reset} Repaired classification`);
+    return remaining;
+  }
+
+  console.error(`  ${c.red}Error: LLM could not produce a valid split of the hunks:${c.reset}`);
+  for (const v of remaining) console.error(`    ${c.red}- ${v}${c.reset}`);
+  return null;
+}
+
+/**
+ * Group files into batches whose hunk display fits in `budget` characters.
+ * Files in the same directory stay in one batch when they fit; a file too
+ * large for any batch is divided between batches by hunk.
+ */
+function batchHunks(files: ParsedFileDiff[], budget: number): ParsedFileDiff[][] {
+  const dirOf = (file: ParsedFileDiff) => path.posix.dirname(file.filePath);
+  const byDir = new Map<string, ParsedFileDiff[]>();
+  for (const file of [...files].sort((a, b) => a.filePath.localeCompare(b.filePath))) {
+    byDir.set(dirOf(file), [...(byDir.get(dirOf(file)) || []), file]);
+  }
+
+  const batches: ParsedFileDiff[][] = [];
+  let current: ParsedFileDiff[] = [];
+  let size = 0;
+  const flush = () => {
+    if (current.length) batches.push(current);
+    current = [];
+    size = 0;
+  };
+
+  for (const dirFiles of byDir.values()) {
+    // Start a directory in a fresh batch rather than spreading it over two
+    if (size + formatHunksForLLM(dirFiles).length > budget) flush();
+
+    for (const file of dirFiles) {
+      const fileSize = formatHunksForLLM([file]).length;
+      if (size + fileSize > budget) flush();
+      if (fileSize <= budget) {
+        current.push(file);
+        size += fileSize;
+        continue;
+      }
+
+      let chunk: ParsedFileDiff = { ...file, hunks: [] };
+      for (const hunk of file.hunks) {
+        const hunkSize = formatHunksForLLM([{ ...file, hunks: [hunk] }]).length;
+        if (chunk.hunks.length && size + hunkSize > budget) {
+          flush();
+          chunk = { ...file, hunks: [] };
+        }
+        if (!chunk.hunks.length) current.push(chunk);
+        chunk.hunks.push(hunk);
+        size += hunkSize;
+      }
+    }
+  }
+  flush();
+
+  return batches;
+}
+
+/**
+ * A group of hunks proposed for one batch of a large commit
+ */
+interface BatchGroup {
+  message: string;
+  description: string;
+  hunkIds: number[];
+  part: number;
+  files: string[];
+}
+
+/**
+ * Ask LLM to merge the groups proposed for each batch into the final commits
+ */
+async function reconcileGroups(
+  commit: CommitInfo,
+  groups: BatchGroup[],
+  parts: number,
+  config: LLMConfig,
+  options: PlanOptions
+): Promise<HunkClassification | null> {
+  const maxSplits = options.maxSplits ?? DEFAULT_MAX_SPLITS;
+  const key = cacheKey('reconcile-groups', config, commit.diff || '', options.instruction, {
+    message: commit.message,
+    body: commit.body,
+    feedback: options.feedback,
+    maxSplits,
+    groups: groups.map(g => [g.message, g.hunkIds]),
+  });
+  const cached = readCache<HunkClassification>(key, config);
+  if (cached) {
+    printCacheHit();
+    return cached;
+  }
+
+  const groupsDisplay = groups.map((g, i) => {
+    const files = g.files.length > 8 ? `${g.files.slice(0, 8).join(', ')}, ... (${g.files.length} files)` : g.files.join(', ');
+    return `[G${i + 1}] (part ${g.part}) ${g.message}\n    ${g.description}\n    ${g.hunkIds.length} hunks in: ${files}`;
+  }).join('\n');
+
+  const customInstruction = options.instruction ? `\n**Custom Instruction:** ${options.instruction}\n` : '';
+  const previousAttempt = formatFeedback(options.feedback);
+
+  const prompt = `You are a git expert. A commit was too large to analyze at once, so its hunks were split into ${parts} parts and each part was grouped separately. Merge these groups into the final set of atomic commits.
+
+${formatOriginalMessage(commit)}
+**Files Changed:** ${commit.filesChanged}
+**Stats:** +${commit.insertions}/-${commit.deletions} lines
+${customInstruction}${previousAttempt}
+**Groups from the parts:**
+${groupsDisplay}
+
+TASK: Combine the groups into 2-${maxSplits} atomic commits. Each commit should do ONE logical thing.
+
+Rules:
+1. Every group ID must appear in exactly ONE commit
+2. Groups from different parts that belong to the same logical change (e.g. a feature spread over several directories) must be merged into one commit
+3. **Dependency Order**: Order commits so dependencies are introduced BEFORE code that uses them
+4. Write one message per commit that describes all of its groups
+
+Respond in JSON:
+{
+  "reasoning": "Brief explanation of how you merged the groups",
+  "commits": [
+    {
+      "message": "feat(auth): Add login function",
+      "body": "Why this change is needed and what it does, in plain sentences.",
+      "description": "What this commit does",
+      "groupIds": ["G1", "G4"]
+    }
+  ]
+}
+
+${MESSAGE_GUIDANCE}
+Only output the JSON.`;
+
+  const response = await callLLM(prompt, config, outputTokens(config));
+
+  let result: { reasoning: string; commits: Array<{ message: string; body?: string; description: string; groupIds: Array<string | number> }> };
+  try {
+    const match = response.match(/\{[\s\S]*\}/);
+    if (!match) {
+      console.error('  No JSON found in response:', response.slice(0, 200));
+      return null;
+    }
+    result = JSON.parse(match[0]);
+  } catch (e) {
+    console.error('  Failed to parse JSON:', e);
     return null;
   }
 
+  // Expand group IDs back into hunk IDs, each group used once
+  const used = new Set<number>();
+  const classification: HunkClassification = {
+    reasoning: result.reasoning,
+    commits: result.commits.map(commit => ({
+      message: commit.message,
+      body: commit.body,
+      description: commit.description,
+      hunkIds: (commit.groupIds || []).flatMap(id => {
+        const index = parseInt(String(id).replace(/^G/i, '')) - 1;
+        if (!groups[index] || used.has(index)) return [];
+        used.add(index);
+        return groups[index].hunkIds;
+      }),
+    })).filter(commit => commit.hunkIds.length),
+  };
+
+  // Unplaced groups are left out, so validation reports their hunks and asks for a repair
+  const missing = groups.filter((_, i) => !used.has(i));
+  if (missing.length) {
+    console.log(`  ${c.yellow}${missing.length} group(s) were not placed in any commit${c.reset}`);
+  }
+
+  writeCache(key, 'reconcile-groups', classification);
+  return classification;
+}
+
+/**
+ * Classify a commit too large for one prompt: group each batch of hunks
+ * separately (map), then merge the groups into one classification (reduce)
+ */
+async function classifyHunksInBatches(
+  commit: CommitInfo,
+  batches: ParsedFileDiff[][],
+  config: LLMConfig,
+  options: PlanOptions
+): Promise<HunkClassification | null> {
+  const groups: BatchGroup[] = [];
+
+  for (const [i, batch] of batches.entries()) {
+    const batchIds = new Set(batch.flatMap(f => f.hunks.map(h => h.id)));
+    console.log(`  ${c.dim}Classifying part ${i + 1}/${batches.length} (${batchIds.size} hunks in ${batch.length} files)...${c.reset}`);
+
+    const part = { index: i + 1, total: batches.length };
+    const result = await classifyHunks(commit, batch, config, options.instruction, options.feedback, options.maxSplits, part);
+    if (!result) return null;
+
+    for (const group of result.commits) {
+      const hunkIds = (group.hunkIds || []).filter(id => batchIds.has(id));
+      if (!hunkIds.length) continue;
+      const files = batch.filter(f => f.hunks.some(h => hunkIds.includes(h.id))).map(f => f.filePath);
+      groups.push({ message: group.message, description: group.description, hunkIds, part: i + 1, files });
+    }
+  }
+
+  console.log(`  ${c.dim}Merging ${groups.length} groups from ${batches.length} parts...${c.reset}`);
+  return reconcileGroups(commit, groups, batches.length, config, options);
+}
+
+/**
+ * Line classification result from LLM
+ */
+export interface LineClassification {
+  commits: Array<{
+    message: string;      // Subject line
+    body?: string;        // Message body explaining what and why
+    description: string;
+    lineIds: number[];
+  }>;
+  reasoning: string;
+}
+
+/**
+ * Ask LLM to classify individual changed lines into commits
+ */
+export async function classifyLines(
+  commit: CommitInfo,
+  parsed: ParsedDiffWithLines,
+  config: LLMConfig,
+  instruction?: string,
+  feedback?: string,
+  maxSplits = DEFAULT_MAX_SPLITS
+): Promise<LineClassification | null> {
+  const key = cacheKey('classify-lines', config, commit.diff || '', instruction, { message: commit.message, body: commit.body, feedback, maxSplits });
+  const cached = readCache<LineClassification>(key, config);
+  if (cached) {
+    printCacheHit();
+    return cached;
+  }
+
+  // Build display for LLM - every changed line gets an ID, context lines are shown without one
+  const lineIdByPos = new Map<string, number>();
+  for (const line of parsed.lines) {
+    lineIdByPos.set(`${line.filePath}:${line.hunkIdx}:${line.lineIdx}`, line.id);
+  }
+
+  let linesDisplay = '';
+  for (const file of parsed.files) {
+    linesDisplay += `\n**${file.filePath}:**\n`;
+    file.hunks.forEach((hunk, hunkIdx) => {
+      linesDisplay += `  ${hunk.header}\n`;
+      hunk.content.split('\n').forEach((line, lineIdx) => {
+        const id = lineIdByPos.get(`${file.filePath}:${hunkIdx}:${lineIdx}`);
+        if (id !== undefined) linesDisplay += `    [L${id}] ${line}\n`;
+        else if (line.startsWith(' ')) linesDisplay += `           ${line}\n`;
+      });
+    });
+  }
+
+  const customInstruction = instruction ? `\n**Custom Instruction:** ${instruction}\n` : '';
+  const previousAttempt = formatFeedback(feedback);
+
+  const prompt = `You are a git expert. Analyze this commit and decide how to split it into atomic commits.
+
+${formatOriginalMessage(commit)}
+**Files Changed:** ${commit.filesChanged}
+**Stats:** +${commit.insertions}/-${commit.deletions} lines
+${customInstruction}${previousAttempt}
+**Changed lines to classify (each + or - line has an ID like [L12]; unlabeled lines are context):**
+${linesDisplay}
+
+TASK: Classify each changed line into one of 2-${maxSplits} atomic commits. Each commit should do ONE logical thing.
+Lines from the same hunk MAY go to different commits when the hunk mixes unrelated changes.
+
+Rules:
+1. Every line ID must appear in exactly ONE commit
+2. A removed line and the added line that replaces it must stay in the same commit
+3. Related changes should stay together (e.g., a function and its callers)
+4. Multi-line constructs (a function body, an object literal, a block and its closing brace) must not be split
+5. Import lines should go with the code that uses them
+6. **Dependency Order**: Order commits so dependencies are introduced BEFORE code that uses them. If commit B depends on code from commit A, commit A must come first.
+7. **Build-ability**: Each commit must be independently buildable. Don't split in a way that would break compilation.
+
+Respond in JSON:
+{
+  "reasoning": "Brief explanation of how you're splitting this",
+  "commits": [
+    {
+      "message": "feat(auth): Add login function",
+      "body": "Why this change is needed and what it does, in plain sentences.",
+      "description": "What this commit does",
+      "lineIds": [0, 1, 2, 7]
+    }
+  ]
+}
+
+${MESSAGE_GUIDANCE}
+If the commit is already atomic, return a single commit with all line IDs.
+Only output the JSON.`;
+
+  const response = await callLLM(prompt, config, outputTokens(config));
+
   try {
     const match = response.match(/\{[\s\S]*\}/);
     if (!match) {
       console.error('  No JSON found in response:', response.slice(0, 200));
       return null;
     }
-    return JSON.parse(match[0]);
+    const classification: LineClassification = JSON.parse(match[0]);
+    writeCache(key, 'classify-lines', classification);
+    return classification;
   } catch (e) {
     console.error('  Failed to parse JSON:', e);
     return null;
@@ -353,11 +1046,205 @@ Only output the JSON.`;
 }
 
 /**
- * Generate split plan using hunk-level classification
+ * Send an invalid line classification back to the LLM with its violations,
+ * asking for a corrected one
  */
-export async function generateSplitPlan(commit: CommitInfo, config: LLMConfig, instruction?: string): Promise<SplitPlan | null> {
+async function repairLineClassification(
+  commit: CommitInfo,
+  parsed: ParsedDiffWithLines,
+  classification: LineClassification,
+  violations: string[],
+  config: LLMConfig,
+  maxSplits = DEFAULT_MAX_SPLITS
+): Promise<LineClassification | null> {
+  const key = cacheKey('repair-lines', config, commit.diff || '', undefined, { body: commit.body, classification, maxSplits });
+  const cached = readCache<LineClassification>(key, config);
+  if (cached) {
+    printCacheHit();
+    return cached;
+  }
+
+  const lineList = parsed.lines.map(l => `  [L${l.id}] ${l.filePath} ${l.type}${l.content}`).join('\n');
+
+  const prompt = `You are a git expert. You were asked to split a commit into atomic commits by assigning each changed line to one commit, but your answer is invalid.
+
+${formatOriginalMessage(commit)}
+
+**Your previous answer:**
+\`\`\`json
+${JSON.stringify(classification, null, 2)}
+\`\`\`
+
+**Problems with it:**
+${violations.map(v => `- ${v}`).join('\n')}
+
+**The changed lines that exist:**
+${lineList}
+
+TASK: Return a corrected answer. Keep your grouping where it was valid, and fix only the problems above.
+
+Rules:
+1. Every line ID listed above must appear in exactly ONE commit
+2. Use only the line IDs listed above
+3. Every commit must have a message and at least one line
+4. Use at most ${maxSplits} commits (a single commit means the change is already atomic)
+
+Respond in the same JSON format:
+{
+  "reasoning": "Brief explanation of how you're splitting this",
+  "commits": [
+    {
+      "message": "feat(auth): Add login function",
+      "body": "Why this change is needed and what it does, in plain sentences.",
+      "description": "What this commit does",
+      "lineIds": [0, 1, 2, 7]
+    }
+  ]
+}
+
+Only output the JSON.`;
+
+  const response = await callLLM(prompt, config, outputTokens(config));
+
+  try {
+    const match = response.match(/\{[\s\S]*\}/);
+    if (!match) {
+      console.error('  No JSON found in response:', response.slice(0, 200));
+      return null;
+    }
+    const repaired: LineClassification = JSON.parse(match[0]);
+    writeCache(key, 'repair-lines', repaired);
+    return repaired;
+  } catch (e) {
+    console.error('  Failed to parse JSON:', e);
+    return null;
+  }
+}
+
+/**
+ * Validate a line classification like a hunk one, giving the LLM one chance
+ * to repair it. Returns null (after printing the violations) if it is still invalid.
+ */
+async function ensureValidLineClassification(
+  commit: CommitInfo,
+  parsed: ParsedDiffWithLines,
+  classification: LineClassification,
+  config: LLMConfig,
+  maxSplits = DEFAULT_MAX_SPLITS
+): Promise<LineClassification | null> {
+  const lineIds = parsed.lines.map(l => l.id);
+  const check = (result: LineClassification) => Array.isArray(result.commits) && result.commits.length
+    ? validatePartition(result.commits.map(c => ({ message: c.message, ids: c.lineIds })), lineIds, maxSplits, 'line')
+    : ['"commits" must be a non-empty array'];
+
+  const violations = check(classification);
+  if (!violations.length) return classification;
+
+  console.log(`  ${c.yellow}LLM line classification is invalid; asking it to repair:${c.reset}`);
+  for (const v of violations) console.log(`    ${c.dim}- ${v}${c.reset}`);
+
+  const repaired = await repairLineClassification(commit, parsed, classification, violations, config, maxSplits);
+  if (!repaired) return null;
+
+  const remaining = check(repaired);
+  if (!remaining.length) {
+    console.log(`  ${c.green}✓${c.reset} Repaired classification`);
+    return repaired;
+  }
+
+  console.error(`  ${c.red}Error: LLM could not produce a valid split of the changed lines:${c.reset}`);
+  for (const v of remaining) console.error(`    ${c.red}- ${v}${c.reset}`);
+  return null;
+}
+
+/**
+ * Generate split plan using line-level classification, so a single hunk
+ * can be divided across several commits
+ */
+async function generateLineSplitPlan(commit: CommitInfo, config: LLMConfig, options: PlanOptions): Promise<SplitPlan | null> {
+  const parsed = parseDiffWithLines(commit.diff || '');
+  if (parsed.lines.length === 0) {
+    return null;
+  }
+
+  console.log(`  ${parsed.lines.length} changed lines across ${parsed.files.length} files`);
+
+  // Every changed line is shown, so the whole diff has to fit in one prompt
+  if ((commit.diff || '').length > promptBudget(config)) {
+    console.error(`  ${c.red}Diff is too large for line-level classification with ${config.model}; use --granularity hunk${c.reset}`);
+    return null;
+  }
+
+  const classification = await classifyLines(commit, parsed, config, options.instruction, options.feedback, options.maxSplits);
+  if (!classification) return null;
+
+  // A single commit means the change is already atomic, as with hunks
+  if (Array.isArray(classification.commits) && classification.commits.length === 1) {
+    return {
+      reasoning: classification.reasoning,
+      splits: [{ message: commit.message, description: classification.commits[0].description || '', diff: commit.diff || '' }],
+    };
+  }
+
+  // Unknown, repeated or missing line IDs would make patches that do not apply
+  const valid = await ensureValidLineClassification(commit, parsed, classification, config, options.maxSplits);
+  if (!valid) return null;
+
+  // Build patches sequentially, tracking each file's state across commits
+  const commits = valid.commits.map(c => ({ ...c, message: commitMessage(c.message, c.body) }));
+  const base = options.base || `${commit.hash}~1`;
+  const splits = buildPatchesWithFileTracking(parsed, commits, base);
+
+  // Changes that can't be split by line go into the first commit, whole
+  const fileUnits = parsed.files.filter(f => f.hunks.some(h => h.fileLevel));
+  if (fileUnits.length && splits.length) {
+    const ids = fileUnits.flatMap(f => f.hunks.map(h => h.id));
+    splits[0].diff = rebuildPatchFromHunks(fileUnits, ids) + splits[0].diff;
+    console.log(`  ${c.yellow}${fileUnits.length} whole-file change(s) (binary, rename, mode or empty file) go into commit 1${c.reset}`);
+  }
+
+  const plan = { reasoning: valid.reasoning, splits };
+  return checkLinePatches(commit, plan, base) ? plan : null;
+}
+
+/**
+ * Check that the line-level patches, applied in order, reproduce the
+ * commit's tree. Every line is in a commit by now, so any difference means
+ * the patches were built wrong.
+ */
+function checkLinePatches(commit: CommitInfo, plan: SplitPlan, base: string): boolean {
+  const expected = commit.hash ? treeOf(commit.hash) : runGit(['write-tree']).output;
+  const tree = scratchTree(base, plan);
+  if (!tree || !expected) {
+    console.error(`  ${c.red}Error: The line-level patches do not apply in order${c.reset}`);
+    return false;
+  }
+  if (tree === expected) return true;
+  console.error(`  ${c.red}Error: The line-level patches do not reproduce ${commit.shortHash || 'the staged changes'}${c.reset}`);
+  return false;
+}
+
+/**
+ * Options for generating a split plan
+ */
+export interface PlanOptions {
+  instruction?: string;
+  granularity?: SplitGranularity;
+  feedback?: string;    // Why a previous plan was rejected (e.g. failed verification)
+  base?: string;        // Ref the diff applies to (default: the commit's parent)
+  maxSplits?: number;   // Most commits the plan may have (default: DEFAULT_MAX_SPLITS)
+}
+
+/**
+ * Generate split plan using hunk-level (default) or line-level classification
+ */
+export async function generateSplitPlan(commit: CommitInfo, config: LLMConfig, options: PlanOptions = {}): Promise<SplitPlan | null> {
   if (!commit.diff) return null;
 
+  if (options.granularity === 'line') {
+    return generateLineSplitPlan(commit, config, options);
+  }
+
   // Parse diff into hunks
   const files = parseDiffIntoHunks(commit.diff);
 
@@ -368,20 +1255,50 @@ export async function generateSplitPlan(commit: CommitInfo, config: LLMConfig, i
 
   console.log(`  ${totalHunks} hunks across ${files.length} files`);
 
-  // Ask LLM to classify hunks
-  const classification = await classifyHunks(commit, files, config, instruction);
+  // Ask LLM to classify hunks, in batches if they don't fit in one prompt
+  const batches = batchHunks(files, promptBudget(config));
+  if (batches.length > 1) {
+    const tokens = Math.round(formatHunksForLLM(files).length / CHARS_PER_TOKEN / 1000);
+    console.log(`  ${c.yellow}~${tokens}k tokens of hunks is too much for one request to ${config.model}; classifying in ${batches.length} parts${c.reset}`);
+  }
+  const classification = batches.length > 1
+    ? await classifyHunksInBatches(commit, batches, config, options)
+    : await classifyHunks(commit, files, config, options.instruction, options.feedback, options.maxSplits);
   if (!classification) return null;
 
+  // The prompt asks for 2 to maxSplits commits, but a single commit is how
+  // the model says the change is already atomic. That is reported as such
+  // instead of being sent back for repair: nothing gets split, so it does not
+  // matter whether the one commit lists every hunk.
+  if (Array.isArray(classification.commits) && classification.commits.length === 1) {
+    return {
+      reasoning: classification.reasoning,
+      splits: [{
+        message: commit.message,
+        description: classification.commits[0].description || '',
+        diff: commit.diff,
+        hunkIds: files.flatMap(f => f.hunks.map(h => h.id)),
+      }],
+      files,
+    };
+  }
+
+  // A plan that drops or duplicates hunks would lose or repeat changes
+  const valid = await ensureValidClassification(commit, files, classification, config, options.maxSplits);
+  if (!valid) return null;
+
   // Build patches from hunk classification
-  const splits = classification.commits.map(c => ({
-    message: c.message,
+  const splits = valid.commits.map(c => ({
+    message: commitMessage(c.message, c.body),
     description: c.description,
     diff: rebuildPatchFromHunks(files, c.hunkIds),
+    hunkIds: c.hunkIds,
   }));
 
   return {
-    reasoning: classification.reasoning,
+    reasoning: valid.reasoning,
     splits,
+    files,
   };
 }
 
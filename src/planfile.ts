@@ -0,0 +1,230 @@
+/**
+ * Split plans saved to and loaded from JSON files
+ *
+ * A plan file lists the commits to create, each with its message and the
+ * hunks it takes. Hunks are referenced by file and `@@` header rather than by
+ * internal ID, so a plan can be reviewed, edited by hand, or written from
+ * scratch, and applied later without calling the LLM:
+ *
+ *   {
+ *     "version": 1,
+ *     "commit": "<hash of the commit to split, or \"staged\">",
+ *     "reasoning": "Why the commit is split this way",
+ *     "commits": [
+ *       {
+ *         "message": "feat(auth): Add login function",
+ *         "description": "What this commit does",
+ *         "hunks": [
+ *           { "file": "src/auth.ts", "header": "@@ -10,5 +10,8 @@" },
+ *           { "file": "src/login.ts" }
+ *         ]
+ *       }
+ *     ]
+ *   }
+ *
+ * A hunk reference without a header takes every hunk of that file.
+ */
+
+import * as fs from 'fs';
+import { c } from './config.js';
+import { parseDiffIntoHunks, rebuildPatchFromHunks } from './git.js';
+import type { ParsedFileDiff } from './git.js';
+import { validateClassification } from './llm.js';
+import type { HunkClassification } from './llm.js';
+import { buildSymbolGraph, forwardReferences } from './symbols.js';
+import type { CommitInfo, SplitPlan } from './types.js';
+
+const PLAN_VERSION = 1;
+
+interface HunkRef {
+  file: string;
+  header?: string;      // The hunk's @@ line; omit to take the whole file
+}
+
+interface PlanFile {
+  version: number;
+  commit: string;       // Full hash of the split commit, or "staged"
+  reasoning: string;
+  commits: Array<{
+    message: string;
+    description?: string;
+    hunks: HunkRef[];
+  }>;
+}
+
+/**
+ * Only the @@ -a,b +c,d @@ part of a header, without the function context
+ */
+function rangeOf(header: string): string {
+  return header.match(/^@@ [^@]* @@/)?.[0] ?? header.trim();
+}
+
+/**
+ * Write a hunk-level plan to `file`. `target` is the commit hash or "staged".
+ */
+export function savePlan(file: string, target: string, plan: SplitPlan): boolean {
+  const files = plan.files;
+  if (!files || !plan.splits.every(split => split.hunkIds)) {
+    console.log(`${c.red}Error: Only hunk-level plans can be saved (use --granularity hunk)${c.reset}`);
+    return false;
+  }
+
+  const hunks = new Map(files.flatMap(f => f.hunks.map(h => [h.id, h] as const)));
+  const planFile: PlanFile = {
+    version: PLAN_VERSION,
+    commit: target,
+    reasoning: plan.reasoning,
+    commits: plan.splits.map(split => ({
+      message: split.message,
+      description: split.description,
+      hunks: (split.hunkIds || []).flatMap(id => {
+        const hunk = hunks.get(id);
+        return hunk ? [{ file: hunk.filePath, header: rangeOf(hunk.header) }] : [];
+      }),
+    })),
+  };
+
+  try {
+    fs.writeFileSync(file, JSON.stringify(planFile, null, 2) + '\n');
+  } catch (e) {
+    console.log(`${c.red}Error: Could not write ${file}: ${e instanceof Error ? e.message : e}${c.reset}`);
+    return false;
+  }
+  console.log(`${c.green}✓${c.reset} Saved split plan to ${file} (apply it with: git-fission --apply-plan ${file})`);
+  return true;
+}
+
+/**
+ * Read the commit a plan file was made for, without resolving its hunks
+ */
+export function readPlanTarget(file: string): string | null {
+  try {
+    const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return typeof raw?.commit === 'string' ? raw.commit : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check that each commit entry has the fields a plan file needs, with the
+ * right types, so hand-edited mistakes are reported instead of crashing later
+ */
+function entryErrors(planFile: PlanFile): string[] {
+  const errors: string[] = [];
+  if (planFile.reasoning !== undefined && typeof planFile.reasoning !== 'string') errors.push('"reasoning" must be a string');
+  planFile.commits.forEach((entry, i) => {
+    const where = `Commit ${i + 1}`;
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    if (typeof entry.message !== 'string' || !entry.message.trim()) errors.push(`${where} needs a "message" string`);
+    if (entry.description !== undefined && typeof entry.description !== 'string') errors.push(`${where} has a "description" that is not a string`);
+    if (!Array.isArray(entry.hunks)) {
+      errors.push(`${where} needs a "hunks" list`);
+      return;
+    }
+    for (const ref of entry.hunks) {
+      if (typeof ref?.file !== 'string' || (ref.header !== undefined && typeof ref.header !== 'string')) {
+        errors.push(`${where} has an invalid hunk reference ${JSON.stringify(ref)}`);
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Resolve one hunk reference to hunk IDs, or an error message
+ */
+function resolveRef(ref: HunkRef, files: ParsedFileDiff[], taken: Set<number>): number[] | string {
+  const file = files.find(f => f.filePath === ref.file);
+  if (!file) return `${ref.file} is not changed in this commit`;
+  if (ref.header === undefined) return file.hunks.map(h => h.id);
+
+  // Identical headers in one file are matched in order
+  const wanted = rangeOf(ref.header);
+  const hunk = file.hunks.find(h => rangeOf(h.header) === wanted && !taken.has(h.id))
+    ?? file.hunks.find(h => rangeOf(h.header) === wanted);
+  return hunk ? [hunk.id] : `${ref.file} has no hunk ${wanted}`;
+}
+
+/**
+ * Load a plan file and rebuild its patches against `commit`'s diff.
+ * Prints what is wrong and returns null if the plan does not match the diff.
+ */
+export function loadPlan(file: string, commit: CommitInfo): SplitPlan | null {
+  let planFile: PlanFile;
+  try {
+    planFile = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (e) {
+    console.log(`${c.red}Error: Could not read ${file}: ${e instanceof Error ? e.message : e}${c.reset}`);
+    return null;
+  }
+  if (planFile.version !== PLAN_VERSION || !Array.isArray(planFile.commits)) {
+    console.log(`${c.red}Error: ${file} is not a version ${PLAN_VERSION} split plan${c.reset}`);
+    return null;
+  }
+  const invalid = entryErrors(planFile);
+  if (invalid.length) {
+    console.log(`${c.red}Error: ${file} is not a valid split plan:${c.reset}`);
+    invalid.forEach(error => console.log(`  ${c.red}- ${error}${c.reset}`));
+    return null;
+  }
+  const target = commit.hash || 'staged';
+  if (typeof planFile.commit === 'string' && planFile.commit && planFile.commit !== target) {
+    console.log(`${c.yellow}Warning: ${file} was made for ${planFile.commit.slice(0, 8)}; matching its hunks against ${commit.shortHash}${c.reset}`);
+  }
+
+  const files = parseDiffIntoHunks(commit.diff || '');
+  const errors: string[] = [];
+  const taken = new Set<number>();
+  const classification: HunkClassification = {
+    reasoning: planFile.reasoning || '',
+    commits: planFile.commits.map(entry => ({
+      message: entry.message,
+      description: entry.description || '',
+      hunkIds: entry.hunks.flatMap(ref => {
+        const ids = resolveRef(ref, files, taken);
+        if (typeof ids === 'string') {
+          errors.push(ids);
+          return [];
+        }
+        ids.forEach(id => taken.add(id));
+        return ids;
+      }),
+    })),
+  };
+
+  // A saved plan is applied as written, however many commits it has
+  const hunkIds = files.flatMap(f => f.hunks.map(h => h.id));
+  errors.push(...validateClassification(classification, hunkIds, Infinity));
+  // Name hunks by file and header, as the plan file does
+  const names = new Map(files.flatMap(f => f.hunks.map(h => [String(h.id), `${f.filePath} ${rangeOf(h.header)}`] as const)));
+  const name = (ids: string) => ids.split(', ').map(id => names.get(id) ?? id).join(', ');
+  const named = (message: string) => message.replace(/\b(hunk\(s\)|hunk) ([\d, ]*\d)/gi, (_, word: string, ids: string) => `${word} ${name(ids)}`);
+  if (errors.length) {
+    console.log(`${c.red}Error: ${file} does not match the diff:${c.reset}`);
+    for (const error of errors) console.log(`  ${c.red}- ${named(error)}${c.reset}`);
+    return null;
+  }
+
+  // The order is kept too, but a commit that uses a symbol only a later
+  // commit defines will not build on its own
+  const forward = forwardReferences(classification.commits, buildSymbolGraph(files));
+  if (forward.length) {
+    console.log(`${c.yellow}Warning: ${file} uses symbols before the commits that define them:${c.reset}`);
+    for (const reference of forward) console.log(`  ${c.yellow}- ${named(reference)}${c.reset}`);
+  }
+
+  return {
+    reasoning: classification.reasoning,
+    splits: classification.commits.map(entry => ({
+      message: entry.message,
+      description: entry.description,
+      diff: rebuildPatchFromHunks(files, entry.hunkIds),
+      hunkIds: entry.hunkIds,
+    })),
+    files,
+  };
+}
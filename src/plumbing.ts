@@ -0,0 +1,199 @@
+/**
+ * Index-based split executor
+ *
+ * Builds split commits with plumbing commands against a temporary index
+ * (GIT_INDEX_FILE, apply --cached, write-tree, commit-tree) and moves the
+ * branch with a single update-ref at the end. The working tree and the
+ * real index are never touched, so uncommitted edits and untracked files
+ * are left alone and only the patched content ends up in the new commits.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { c } from './config.js';
+import { runGit } from './git.js';
+import { verifyCommit } from './verify.js';
+import { authorEnv, signArgs, withTrailers } from './authorship.js';
+import type { ApplyResult, CommitMetadata, SplitPlan } from './types.js';
+
+/**
+ * Create a commit object from a tree without touching any ref
+ */
+function commitTree(tree: string, parent: string, message: string, env?: Record<string, string>, sign: boolean | string = false): string | null {
+  const { ok, output } = runGit(['commit-tree', tree, '-p', parent, ...signArgs(sign), '-F', '-'], { input: message.trimEnd() + '\n', env });
+  if (!ok) console.log(`  ${c.dim}${output}${c.reset}`);
+  return ok ? output : null;
+}
+
+/**
+ * Build one commit per split on top of `base`, using a temporary index.
+ * No ref is updated; the caller moves the branch once everything succeeded.
+ */
+export function buildSplitCommits(base: string, plan: SplitPlan, metadata: CommitMetadata, verify?: string): ApplyResult {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-fission-'));
+  const env = { GIT_INDEX_FILE: path.join(tmpDir, 'index') };
+
+  try {
+    const { ok: readOk, output: readOut } = runGit(['read-tree', base], { env });
+    if (!readOk) {
+      console.log(`${c.red}Error: Failed to read ${base.slice(0, 8)} into a temporary index: ${readOut}${c.reset}`);
+      return { ok: false, verifyFailed: false };
+    }
+
+    const commits: string[] = [];
+    let parent = base;
+
+    for (const [i, split] of plan.splits.entries()) {
+      const title = split.message.split('\n')[0];
+      console.log(`\n${c.dim}Building commit ${i + 1}/${plan.splits.length}: ${title.slice(0, 40)}...${c.reset}`);
+
+      const patchFile = path.join(tmpDir, `${String(i + 1).padStart(2, '0')}.patch`);
+      fs.writeFileSync(patchFile, split.diff);
+
+      const { ok: applyOk, output: applyOut } = runGit(['apply', '--cached', patchFile], { env });
+      if (!applyOk) {
+        console.log(`${c.red}Patch ${i + 1} failed to apply:${c.reset}`);
+        console.log(`  ${applyOut}`);
+        return { ok: false, verifyFailed: false };
+      }
+
+      const { ok: treeOk, output: tree } = runGit(['write-tree'], { env });
+      const message = withTrailers(split.message, metadata.trailers);
+      const hash = treeOk ? commitTree(tree, parent, message, authorEnv(metadata), metadata.sign) : null;
+      if (!hash) {
+        console.log(`${c.red}Error creating commit ${i + 1}${c.reset}`);
+        return { ok: false, verifyFailed: false };
+      }
+      console.log(`  ${c.green}✓${c.reset} Created ${hash.slice(0, 8)}: ${title.slice(0, 50)}`);
+
+      if (verify) {
+        console.log(`  ${c.dim}Verifying: ${verify}${c.reset}`);
+        const result = verifyCommit(hash, verify);
+        if (!result.ok) {
+          console.log(`  ${c.red}✗ Verification failed${c.reset}`);
+          return { ok: false, verifyFailed: true, index: i, output: result.output };
+        }
+        console.log(`  ${c.green}✓${c.reset} Verified`);
+      }
+
+      commits.push(hash);
+      parent = hash;
+    }
+
+    return { ok: true, commits };
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Apply every patch of the plan on top of `base` in a scratch index and
+ * return the resulting tree, without creating any commit. Used by dry runs.
+ */
+export function scratchTree(base: string, plan: SplitPlan): string | null {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-fission-'));
+  const env = { GIT_INDEX_FILE: path.join(tmpDir, 'index') };
+
+  try {
+    const { ok: readOk, output: readOut } = runGit(['read-tree', base], { env });
+    if (!readOk) {
+      console.log(`${c.red}Error: Failed to read ${base.slice(0, 8)} into a scratch index: ${readOut}${c.reset}`);
+      return null;
+    }
+
+    for (const [i, split] of plan.splits.entries()) {
+      const patchFile = path.join(tmpDir, `${String(i + 1).padStart(2, '0')}.patch`);
+      fs.writeFileSync(patchFile, split.diff);
+      const { ok, output } = runGit(['apply', '--cached', patchFile], { env });
+      if (!ok) {
+        console.log(`${c.red}Patch ${i + 1} would fail to apply:${c.reset}`);
+        console.log(`  ${output}`);
+        return null;
+      }
+    }
+
+    const { ok, output: tree } = runGit(['write-tree'], { env });
+    return ok ? tree : null;
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Commit `tree` on top of `parent` with the split's authorship, for the
+ * changes the split commits left out
+ */
+export function commitRemainder(tree: string, parent: string, message: string, metadata: CommitMetadata): string | null {
+  return commitTree(tree, parent, withTrailers(message, metadata.trailers), authorEnv(metadata), metadata.sign);
+}
+
+/**
+ * Re-create a commit on new parents (none for a root commit), keeping its
+ * tree and authorship, and its message unless a new one is given
+ */
+export function recommit(hash: string, parents: string[], sign: boolean | string, newMessage?: string): string | null {
+  const { ok, output } = runGit(['log', '-1', '--format=%T%n%an%n%ae%n%ad', '--date=raw', hash]);
+  const { ok: msgOk, output: message } = runGit(['log', '-1', '--format=%B', hash], { trim: false });
+  if (!ok || !msgOk) return null;
+
+  const [tree, name, email, date] = output.split('\n');
+  const { ok: commitOk, output: commitOut } = runGit(
+    ['commit-tree', tree, ...parents.flatMap(p => ['-p', p]), ...signArgs(sign), '-F', '-'],
+    {
+      input: (newMessage ?? message).trimEnd() + '\n',
+      env: { GIT_AUTHOR_NAME: name, GIT_AUTHOR_EMAIL: email, GIT_AUTHOR_DATE: date },
+    }
+  );
+  if (!commitOk) console.log(`  ${c.dim}${commitOut}${c.reset}`);
+  return commitOk ? commitOut : null;
+}
+
+/**
+ * Re-create descendant commits on a new parent, keeping their trees,
+ * messages and authorship. Only valid when the new parent has the same
+ * tree as the commit they were originally built on.
+ */
+export function rewriteDescendants(descendants: string[], newParent: string, sign: boolean | string): string | null {
+  let parent = newParent;
+
+  for (const hash of descendants) {
+    const rewritten = recommit(hash, [parent], sign);
+    if (!rewritten) return null;
+
+    const { output: subject } = runGit(['log', '-1', '--format=%s', hash]);
+    console.log(`  ${c.green}✓${c.reset} Replayed: ${subject.slice(0, 50)}`);
+    parent = rewritten;
+  }
+
+  return parent;
+}
+
+/**
+ * Move HEAD's branch from `oldHead` to `newHead` without touching the
+ * working tree or index. Fails if the branch moved in the meantime.
+ */
+export function moveHead(newHead: string, oldHead: string, reason: string): boolean {
+  const { ok, output } = runGit(['update-ref', '-m', reason, 'HEAD', newHead, oldHead]);
+  if (!ok) {
+    console.log(`${c.red}Error: Failed to update HEAD: ${output}${c.reset}`);
+  }
+  return ok;
+}
+
+/**
+ * Tree of a commit (or of a tree-ish), or null if it cannot be resolved
+ */
+export function treeOf(rev: string): string | null {
+  const { ok, output } = runGit(['rev-parse', `${rev}^{tree}`]);
+  return ok ? output : null;
+}
+
+/**
+ * Check whether two commits point to the same tree
+ */
+export function sameTree(a: string, b: string): boolean {
+  const { ok: okA, output: treeA } = runGit(['rev-parse', `${a}^{tree}`]);
+  const { ok: okB, output: treeB } = runGit(['rev-parse', `${b}^{tree}`]);
+  return okA && okB && treeA === treeB;
+}
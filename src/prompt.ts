@@ -0,0 +1,40 @@
+/**
+ * Interactive terminal prompts
+ */
+
+// Set once stdin has closed (EOF, or no input in a non-interactive run)
+let inputClosed = false;
+
+/**
+ * Whether stdin has closed, so every further prompt answers ''
+ */
+export function isInputClosed(): boolean {
+  return inputClosed;
+}
+
+/**
+ * Prompt the user for a line of input. Resolves to '' if stdin closes
+ * first, which every prompt treats as its safe default.
+ */
+export async function ask(question: string): Promise<string> {
+  if (inputClosed || process.stdin.readableEnded) {
+    inputClosed = true;
+    process.stdout.write(`${question}\n`);
+    return '';
+  }
+
+  const readline = await import('readline');
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise<string | null>(resolve => {
+    rl.once('close', () => resolve(null));
+    rl.question(question, resolve);
+  });
+  rl.close();
+
+  if (answer === null) {
+    inputClosed = true;
+    process.stdout.write('\n');
+    return '';
+  }
+  return answer.trim();
+}
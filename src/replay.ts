@@ -0,0 +1,144 @@
+/**
+ * Replaying descendant commits on top of a split commit
+ *
+ * Works like the "edit" stop of an interactive rebase: the split commits
+ * are created on the parent, then every commit that came after the
+ * original one is cherry-picked back on top. If a cherry-pick conflicts,
+ * the remaining work is saved so it can be resumed with --continue or
+ * rolled back with --abort.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { c } from './config.js';
+import { runGit, getGitDir } from './git.js';
+import { signArgs } from './authorship.js';
+import { recordResultHead } from './backup.js';
+
+/**
+ * Saved state of an interrupted replay
+ */
+export interface ReplayState {
+  branch: string;          // Branch being rewritten ('HEAD' if detached)
+  originalHead: string;    // Branch tip before the split, for --abort
+  remaining: string[];     // Descendants not yet replayed, oldest first
+  sign?: boolean | string; // Signing policy for the replayed commits
+  backupId?: string;       // Backup of the split, given the final head once done
+}
+
+function getStatePath(): string | null {
+  const gitDir = getGitDir();
+  return gitDir ? path.join(gitDir, 'fission', 'replay.json') : null;
+}
+
+export function loadReplayState(): ReplayState | null {
+  const statePath = getStatePath();
+  if (!statePath || !fs.existsSync(statePath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function saveReplayState(state: ReplayState): void {
+  const statePath = getStatePath();
+  if (!statePath) return;
+  fs.mkdirSync(path.dirname(statePath), { recursive: true });
+  fs.writeFileSync(statePath, JSON.stringify(state, null, 2));
+}
+
+function clearReplayState(): void {
+  const statePath = getStatePath();
+  if (statePath && fs.existsSync(statePath)) fs.unlinkSync(statePath);
+}
+
+function isCherryPickInProgress(): boolean {
+  const gitDir = getGitDir();
+  return !!gitDir && fs.existsSync(path.join(gitDir, 'CHERRY_PICK_HEAD'));
+}
+
+/**
+ * Cherry-pick the given commits onto HEAD, one by one.
+ * Stops on the first conflict and saves the remaining work.
+ */
+export function replayCommits(state: ReplayState): boolean {
+  const total = state.remaining.length;
+
+  while (state.remaining.length > 0) {
+    const hash = state.remaining[0];
+    const { output: subject } = runGit(['log', '-1', '--format=%s', hash]);
+    console.log(`\n${c.dim}Replaying ${total - state.remaining.length + 1}/${total}: ${hash.slice(0, 8)} ${subject.slice(0, 40)}${c.reset}`);
+
+    const { ok, output } = runGit(['cherry-pick', '--allow-empty', ...signArgs(state.sign ?? false), hash]);
+    state.remaining = state.remaining.slice(1);
+
+    if (!ok) {
+      saveReplayState(state);
+      console.log(`${c.red}Conflict while replaying ${hash.slice(0, 8)}:${c.reset}`);
+      console.log(`  ${output.split('\n').join('\n  ')}`);
+      console.log(`\n${c.yellow}Resolve the conflicts and stage the result, then run:${c.reset}`);
+      console.log(`  git-fission --continue`);
+      console.log(`${c.yellow}Or restore the branch to its original state with:${c.reset}`);
+      console.log(`  git-fission --abort`);
+      return false;
+    }
+    console.log(`  ${c.green}✓${c.reset} Replayed: ${subject.slice(0, 50)}`);
+  }
+
+  clearReplayState();
+  return true;
+}
+
+/**
+ * Resume a replay that stopped on a conflict
+ */
+export function continueReplay(): boolean {
+  const state = loadReplayState();
+  if (!state) {
+    console.log(`${c.red}Error: No split in progress${c.reset}`);
+    return false;
+  }
+
+  if (isCherryPickInProgress()) {
+    const { ok, output } = runGit(['-c', 'core.editor=true', 'cherry-pick', '--continue']);
+    if (!ok) {
+      console.log(`${c.red}Error: Could not continue: ${output}${c.reset}`);
+      console.log(`${c.yellow}Make sure all conflicts are resolved and staged.${c.reset}`);
+      return false;
+    }
+  }
+
+  if (!replayCommits(state)) return false;
+
+  // --undo compares the branch with this to tell whether it has moved since
+  if (state.backupId) {
+    const { output: head } = runGit(['rev-parse', 'HEAD']);
+    recordResultHead(state.backupId, head);
+  }
+  console.log(`\n${c.green}✓ Replay complete!${c.reset}`);
+  return true;
+}
+
+/**
+ * Abandon a replay and restore the branch to where it was before the split
+ */
+export function abortReplay(): boolean {
+  const state = loadReplayState();
+  if (!state) {
+    console.log(`${c.red}Error: No split in progress${c.reset}`);
+    return false;
+  }
+
+  if (isCherryPickInProgress()) runGit(['cherry-pick', '--abort']);
+
+  const { ok, output } = runGit(['reset', '--hard', state.originalHead]);
+  if (!ok) {
+    console.log(`${c.red}Error: Failed to restore ${state.originalHead.slice(0, 8)}: ${output}${c.reset}`);
+    return false;
+  }
+
+  clearReplayState();
+  console.log(`${c.green}✓ Restored ${state.branch} to ${state.originalHead.slice(0, 8)}${c.reset}`);
+  return true;
+}
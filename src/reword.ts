@@ -0,0 +1,186 @@
+/**
+ * Reword commit messages
+ *
+ * Asks the LLM for a conventional-commit subject and body for a commit,
+ * shows the old and new message side by side and, once confirmed, rewrites
+ * the branch from the oldest reworded commit: every commit is re-created
+ * with the same tree and author, so only the messages change and the working
+ * tree and index are left alone.
+ */
+
+import { c } from './config.js';
+import { analyzeMessage } from './analysis.js';
+import { runGit, getCommitInfo, getDescendants } from './git.js';
+import { generateCommitMessage } from './llm.js';
+import { LLMError, describeLLMError } from './transport.js';
+import { ask } from './prompt.js';
+import { getCommitMetadata, resolveSigning, withTrailers } from './authorship.js';
+import { createBackup, recordSplitResult } from './backup.js';
+import { loadReplayState } from './replay.js';
+import { moveHead, recommit } from './plumbing.js';
+import type { CommitInfo, LLMConfig, RewordOptions } from './types.js';
+
+/**
+ * What analyzeMessage finds wrong with a message (empty if nothing)
+ */
+function messageProblems(message: string): string[] {
+  const { issues, suggestions } = analyzeMessage(message);
+  return [...issues, ...suggestions];
+}
+
+/**
+ * Ask the LLM for a new message, reporting why it failed if it did
+ */
+async function requestMessage(commit: CommitInfo, config: LLMConfig, problems: string[]): Promise<string | null> {
+  try {
+    const message = await generateCommitMessage(commit, config, problems);
+    if (!message) console.log(`${c.red}Error: Could not read a commit message from the LLM response.${c.reset}`);
+    return message;
+  } catch (e) {
+    if (!(e instanceof LLMError)) throw e;
+    console.log(`${c.red}Error: ${describeLLMError(e, config)}${c.reset}`);
+    return null;
+  }
+}
+
+function printComparison(commit: CommitInfo, before: string, after: string, problems: string[]): void {
+  const indent = (message: string) => message.split('\n').map(line => line && `    ${line}`).join('\n');
+  console.log(`\n${c.bold}${commit.shortHash}${c.reset}${problems.length ? ` ${c.dim}(${problems.join('; ')})${c.reset}` : ''}`);
+  console.log(`  ${c.red}Before:${c.reset}\n${indent(before)}`);
+  console.log(`  ${c.green}After:${c.reset}\n${indent(after)}`);
+}
+
+/**
+ * Suggest a message for one commit and show it next to the current one.
+ * Returns the new message (with the original's trailers), or null on failure.
+ */
+async function suggestMessage(commit: CommitInfo, config: LLMConfig, options: RewordOptions, problems: string[]): Promise<string | null> {
+  const message = await requestMessage(commit, config, problems);
+  if (!message) return null;
+
+  const { trailers } = getCommitMetadata(commit.hash, options.trailers, false);
+  const after = withTrailers(message, trailers).trimEnd();
+  const before = [commit.message, commit.body].filter(Boolean).join('\n\n');
+  printComparison(commit, before, after, problems);
+  return after;
+}
+
+/**
+ * Rewrite the branch so the given commits get their new messages.
+ * Later commits are re-created on top with their trees unchanged.
+ */
+function applyMessages(messages: Map<string, string>, options: RewordOptions): boolean {
+  if (loadReplayState()) {
+    console.log(`${c.red}Error: A split is in progress. Use --continue or --abort first.${c.reset}`);
+    return false;
+  }
+
+  // The oldest reworded commit has the most descendants
+  const chains = [...messages.keys()].map(hash => ({ hash, descendants: getDescendants(hash) }));
+  const outside = chains.find(chain => !chain.descendants);
+  if (outside) {
+    console.log(`${c.red}Error: ${outside.hash.slice(0, 8)} is not an ancestor of HEAD.${c.reset}`);
+    return false;
+  }
+  const oldest = chains.reduce((a, b) => (b.descendants?.length ?? 0) > (a.descendants?.length ?? 0) ? b : a);
+  const commits = [oldest.hash, ...(oldest.descendants || [])];
+
+  const { output: merges } = runGit(['rev-list', '--merges', `${oldest.hash}..HEAD`]);
+  if (merges) {
+    console.log(`${c.red}Error: Cannot rewrite merge commits between ${oldest.hash.slice(0, 8)} and HEAD.${c.reset}`);
+    return false;
+  }
+
+  const { output: originalHead } = runGit(['rev-parse', 'HEAD']);
+  const { output: branch } = runGit(['rev-parse', '--abbrev-ref', 'HEAD']);
+  const info = getCommitInfo(oldest.hash);
+  const backupId = info && createBackup(info, originalHead, branch, 'reword');
+  if (!backupId) return false;
+
+  const sign = resolveSigning(options.sign);
+  const { output: parentList } = runGit(['log', '-1', '--format=%P', oldest.hash]);
+  let parents = parentList.split(' ').filter(Boolean);
+  const reworded: string[] = [];
+
+  for (const hash of commits) {
+    const rewritten = recommit(hash, parents, sign, messages.get(hash));
+    if (!rewritten) {
+      console.log(`${c.red}Error: Failed to rewrite ${hash.slice(0, 8)}. Nothing was changed.${c.reset}`);
+      return false;
+    }
+    if (messages.has(hash)) reworded.push(rewritten);
+    parents = [rewritten];
+  }
+
+  const newHead = parents[0];
+  if (!moveHead(newHead, originalHead, `git-fission: reword ${messages.size} commit(s)`)) return false;
+  recordSplitResult(backupId, reworded, newHead);
+
+  console.log(`\n${c.green}✓ Reworded ${messages.size} commit(s)${commits.length > messages.size ? `, and re-created ${commits.length - messages.size} later commit(s) on top` : ''}.${c.reset}`);
+  const { output: log } = runGit(['log', '--oneline', `-${commits.length}`]);
+  log.split('\n').forEach(line => console.log(`  ${line}`));
+  return true;
+}
+
+/**
+ * Suggest a new message for one commit and apply it on confirmation
+ */
+export async function rewordCommit(commitRef: string, config: LLMConfig, options: RewordOptions): Promise<boolean> {
+  const { ok, output: hash } = runGit(['rev-parse', '--verify', '--quiet', `${commitRef}^{commit}`]);
+  const commit = ok ? getCommitInfo(hash, true) : null;
+  if (!commit) {
+    console.log(`${c.red}Error: Invalid commit reference${c.reset}`);
+    return false;
+  }
+
+  console.log(`${c.bold}Generating a new message for ${commit.shortHash}...${c.reset}`);
+  const message = await suggestMessage(commit, config, options, messageProblems(commit.message));
+  if (!message) return false;
+  if (options.dryRun) {
+    console.log(`\n${c.yellow}Dry run - no changes made.${c.reset}`);
+    return true;
+  }
+
+  const answer = await ask(`\nReword ${commit.shortHash}? [y/N] `);
+  if (answer.toLowerCase() !== 'y') {
+    console.log('Aborted.');
+    return false;
+  }
+  return applyMessages(new Map([[commit.hash, message]]), options);
+}
+
+/**
+ * Suggest new messages for every commit in `hashes` (oldest first) whose
+ * message has problems, ask about each, and apply the accepted ones together
+ */
+export async function rewordRange(hashes: string[], config: LLMConfig, options: RewordOptions): Promise<boolean> {
+  const flagged = hashes
+    .map(hash => getCommitInfo(hash, true))
+    .filter((commit): commit is CommitInfo => !!commit && messageProblems(commit.message).length > 0);
+
+  if (!flagged.length) {
+    console.log(`${c.green}✓ All ${hashes.length} commit message(s) look fine${c.reset}`);
+    return true;
+  }
+  console.log(`${c.bold}${flagged.length} of ${hashes.length} commit message(s) can be improved${c.reset}`);
+
+  const messages = new Map<string, string>();
+  for (const commit of flagged) {
+    const message = await suggestMessage(commit, config, options, messageProblems(commit.message));
+    if (!message || options.dryRun) continue;
+
+    const answer = (await ask(`\nReword ${commit.shortHash}? [y/N/q(uit)] `)).toLowerCase();
+    if (answer === 'q') break;
+    if (answer === 'y') messages.set(commit.hash, message);
+  }
+
+  if (options.dryRun) {
+    console.log(`\n${c.yellow}Dry run - no changes made.${c.reset}`);
+    return true;
+  }
+  if (!messages.size) {
+    console.log('Nothing to reword.');
+    return true;
+  }
+  return applyMessages(messages, options);
+}
@@ -0,0 +1,205 @@
+/**
+ * Per-repository settings
+ *
+ * Values are resolved from, lowest to highest precedence:
+ *   1. built-in defaults
+ *   2. the committed repo config file (.git-fission.json, or .git-fissionrc)
+ *   3. git config fission.* keys (personal or per-clone overrides)
+ *   4. GIT_FISSION_* environment variables
+ *   5. command-line flags
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { c, DEFAULT_BASE_URL, DEFAULT_MODELS, DEFAULT_PROVIDER, DEFAULT_THRESHOLD, DEFAULT_MAX_SPLITS, DEFAULT_TIMEOUT, DEFAULT_TRAILERS, PROVIDERS } from './config.js';
+import { runGit } from './git.js';
+import type { LLMProvider, ResolvedSettings, Settings, SettingSource } from './types.js';
+
+const CONFIG_FILES = ['.git-fission.json', '.git-fissionrc'] as const;
+
+type PartialSettings = Partial<Settings>;
+
+/**
+ * Check raw values from a config source, dropping (and reporting) invalid ones
+ */
+function validate(raw: Record<string, unknown>, source: string): PartialSettings {
+  const settings: PartialSettings = {};
+  const invalid = (key: string) => console.error(`${c.yellow}Warning: Ignoring invalid ${key} in ${source}${c.reset}`);
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (value === undefined) continue;
+    switch (key) {
+      case 'provider':
+        if (PROVIDERS.includes(value as LLMProvider)) settings.provider = value as LLMProvider;
+        else invalid(key);
+        break;
+      case 'model':
+      case 'baseUrl':
+      case 'instruction':
+        if (typeof value === 'string' && value) settings[key] = value;
+        else invalid(key);
+        break;
+      case 'threshold': {
+        const n = Number(value);
+        if (Number.isFinite(n) && n >= 0 && n <= 100) settings.threshold = n;
+        else invalid(key);
+        break;
+      }
+      case 'timeout': {
+        const n = Number(value);
+        if (Number.isFinite(n) && n > 0) settings.timeout = n;
+        else invalid(key);
+        break;
+      }
+      case 'contextWindow': {
+        const n = Number(value);
+        if (Number.isInteger(n) && n >= 1024) settings.contextWindow = n;
+        else invalid(key);
+        break;
+      }
+      case 'maxSplits': {
+        const n = Number(value);
+        if (Number.isInteger(n) && n >= 2) settings.maxSplits = n;
+        else invalid(key);
+        break;
+      }
+      case 'ignore':
+      case 'trailers':
+        if (Array.isArray(value) && value.every(v => typeof v === 'string')) settings[key] = value;
+        else invalid(key);
+        break;
+      default:
+        console.error(`${c.yellow}Warning: Unknown setting ${key} in ${source}${c.reset}`);
+    }
+  }
+  return settings;
+}
+
+/**
+ * Read the repo config file from the top of the work tree
+ */
+function loadConfigFile(): { file: SettingSource; settings: PartialSettings } | null {
+  const { ok, output: topLevel } = runGit(['rev-parse', '--show-toplevel']);
+  if (!ok) return null;
+
+  for (const file of CONFIG_FILES) {
+    const fullPath = path.join(topLevel, file);
+    if (!fs.existsSync(fullPath)) continue;
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(fullPath, 'utf-8'));
+      if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) throw new Error('expected a JSON object');
+      return { file, settings: validate(raw, file) };
+    } catch (e) {
+      console.error(`${c.yellow}Warning: Ignoring ${file}: ${e instanceof Error ? e.message : e}${c.reset}`);
+      return null;
+    }
+  }
+  return null;
+}
+
+function loadGitConfig(): PartialSettings {
+  const get = (key: string) => {
+    const { ok, output } = runGit(['config', '--get', `fission.${key}`]);
+    return ok && output ? output : undefined;
+  };
+  const { ok: ignoreOk, output: ignore } = runGit(['config', '--get-all', 'fission.ignore']);
+
+  return validate({
+    provider: get('provider'),
+    model: get('model'),
+    baseUrl: get('baseUrl'),
+    instruction: get('instruction'),
+    threshold: get('threshold'),
+    maxSplits: get('maxSplits'),
+    timeout: get('timeout'),
+    contextWindow: get('contextWindow'),
+    ignore: ignoreOk && ignore ? ignore.split('\n') : undefined,
+    trailers: get('trailers')?.split(',').map(t => t.trim()).filter(Boolean),
+  }, 'git config');
+}
+
+function loadEnv(): PartialSettings {
+  return validate({
+    provider: process.env.GIT_FISSION_PROVIDER || undefined,
+    model: process.env.GIT_FISSION_MODEL || undefined,
+    baseUrl: process.env.GIT_FISSION_BASE_URL || undefined,
+    timeout: process.env.GIT_FISSION_TIMEOUT || undefined,
+  }, 'environment');
+}
+
+/**
+ * Resolve settings from every source. `flags` holds only the values
+ * given on the command line.
+ */
+export function loadSettings(flags: PartialSettings): ResolvedSettings {
+  const values: Settings = {
+    provider: DEFAULT_PROVIDER,
+    model: '',
+    threshold: DEFAULT_THRESHOLD,
+    ignore: [],
+    maxSplits: DEFAULT_MAX_SPLITS,
+    timeout: DEFAULT_TIMEOUT,
+    trailers: DEFAULT_TRAILERS,
+  };
+  const sources: ResolvedSettings['sources'] = {
+    provider: 'default',
+    model: 'default',
+    baseUrl: 'default',
+    instruction: 'default',
+    threshold: 'default',
+    ignore: 'default',
+    maxSplits: 'default',
+    timeout: 'default',
+    contextWindow: 'default',
+    trailers: 'default',
+  };
+
+  const configFile = loadConfigFile();
+  const layers: Array<[SettingSource, PartialSettings]> = [
+    ...(configFile ? [[configFile.file, configFile.settings] as [SettingSource, PartialSettings]] : []),
+    ['git config', loadGitConfig()],
+    ['env', loadEnv()],
+    ['flag', flags],
+  ];
+
+  for (const [source, settings] of layers) {
+    for (const [key, value] of Object.entries(settings) as Array<[keyof Settings, unknown]>) {
+      if (value === undefined) continue;
+      (values as unknown as Record<string, unknown>)[key] = value;
+      sources[key] = source;
+    }
+  }
+
+  // The default model follows the resolved provider
+  if (!values.model) {
+    values.model = DEFAULT_MODELS[values.provider];
+  }
+
+  return { values, sources };
+}
+
+/**
+ * Print the resolved settings and where each one came from
+ */
+export function printSettings(settings: ResolvedSettings): void {
+  const { values, sources } = settings;
+  const rows: Array<[keyof Settings, string]> = [
+    ['provider', values.provider],
+    ['model', values.model],
+    ['baseUrl', values.baseUrl ?? (values.provider === 'openai-compatible' ? DEFAULT_BASE_URL : '(unused)')],
+    ['instruction', values.instruction ?? '(none)'],
+    ['threshold', String(values.threshold)],
+    ['ignore', values.ignore.length ? values.ignore.join(', ') : '(none)'],
+    ['maxSplits', String(values.maxSplits)],
+    ['timeout', `${values.timeout}s`],
+    ['contextWindow', values.contextWindow ? `${values.contextWindow} tokens` : '(from model)'],
+    ['trailers', values.trailers.length ? values.trailers.join(', ') : '(none)'],
+  ];
+
+  console.log(`${c.bold}Resolved settings:${c.reset}\n`);
+  for (const [key, value] of rows) {
+    console.log(`  ${key.padEnd(14)} ${value}  ${c.dim}(${sources[key]})${c.reset}`);
+  }
+  console.log(`\n${c.dim}Precedence: flag > env > git config fission.* > ${CONFIG_FILES.join(' / ')} > default${c.reset}`);
+}
@@ -2,122 +2,540 @@
  * Commit splitting functionality
  */
 
-import { c } from './config.js';
-import { runGit, getCommitInfo } from './git.js';
+import { c, DEFAULT_MAX_SPLITS } from './config.js';
+import { runGit, getCommitInfo, getDescendants, getStagedInfo, rebuildPatchFromHunks } from './git.js';
 import { generateSplitPlan } from './llm.js';
-import type { CommitInfo, LLMConfig, SplitPlan } from './types.js';
+import { LLMError, describeLLMError } from './transport.js';
+import { replayCommits, loadReplayState } from './replay.js';
+import { verifyCommit } from './verify.js';
+import { ask, isInputClosed } from './prompt.js';
+import { canEditPlan, editPlan } from './editor.js';
+import { loadPlan, savePlan } from './planfile.js';
+import { generateHeuristicPlan } from './heuristic.js';
+import { buildSymbolGraph, commitEdges } from './symbols.js';
+import { authorEnv, getCommitMetadata, resolveSigning, signArgs, withTrailers } from './authorship.js';
+import { createBackup, recordSplitResult } from './backup.js';
+import { buildSplitCommits, commitRemainder, rewriteDescendants, moveHead, sameTree, scratchTree, treeOf } from './plumbing.js';
+import type { ApplyResult, CommitInfo, CommitMetadata, LLMConfig, SplitOptions, SplitPlan } from './types.js';
 
-export async function executeSplit(commit: CommitInfo, plan: SplitPlan, dryRun: boolean): Promise<boolean> {
-  const fs = await import('fs');
-  const path = await import('path');
-  const os = await import('os');
+/**
+ * Called when a split fails verification, to get a new plan from the LLM.
+ * Reports its own errors and returns null on failure.
+ */
+export type Replanner = (feedback: string) => Promise<SplitPlan | null>;
+
+/**
+ * Ask the LLM for a split plan, reporting why it failed if it did
+ */
+async function requestPlan(generate: () => Promise<SplitPlan | null>, config: LLMConfig): Promise<SplitPlan | null> {
+  try {
+    const plan = await generate();
+    if (!plan) console.log(`${c.red}Error: Could not build a split plan from the LLM response.${c.reset}`);
+    return plan;
+  } catch (e) {
+    if (!(e instanceof LLMError)) throw e;
+    console.log(`${c.red}Error: ${describeLLMError(e, config)}${c.reset}`);
+    return null;
+  }
+}
+
+/**
+ * Load the plan from --apply-plan, build one with the heuristic strategy,
+ * or ask the LLM for one, then save it if --plan-out was given (edits made
+ * before confirming are saved again by confirmPlan)
+ */
+async function getPlan(
+  generate: () => Promise<SplitPlan | null>,
+  commit: CommitInfo,
+  config: LLMConfig,
+  options: SplitOptions
+): Promise<SplitPlan | null> {
+  let plan: SplitPlan | null;
+  if (options.applyPlan) {
+    console.log(`\n${c.dim}Loading split plan from ${options.applyPlan}...${c.reset}`);
+    plan = loadPlan(options.applyPlan, commit);
+  } else if (options.strategy === 'heuristic') {
+    console.log(`\n${c.dim}Grouping hunks with the heuristic strategy (no LLM)...${c.reset}`);
+    if (options.granularity === 'line') console.log(`  ${c.yellow}The heuristic strategy splits by hunk; ignoring --granularity line${c.reset}`);
+    plan = generateHeuristicPlan(commit, options.maxSplits);
+    if (!plan) console.log(`${c.red}Error: No hunks to split.${c.reset}`);
+  } else {
+    console.log(`\n${c.dim}Generating ${options.granularity}-level split plan with LLM...${c.reset}`);
+    plan = await requestPlan(generate, config);
+  }
+
+  if (plan && options.planOut && !savePlan(options.planOut, commit.hash || 'staged', plan)) return null;
+  return plan;
+}
+
+/**
+ * Why a plan with a single commit means there is nothing to split
+ */
+function singleCommitNote(options: SplitOptions, llmNote: string): string {
+  if (options.applyPlan) return 'The plan has a single commit, so there is nothing to split.';
+  if (options.strategy === 'heuristic') return 'The heuristic strategy found a single group, so there is nothing to split.';
+  return llmNote;
+}
 
+/**
+ * First line of a commit message
+ */
+function subject(message: string): string {
+  return message.split('\n')[0];
+}
+
+function printPlan(commit: CommitInfo, plan: SplitPlan): void {
   console.log(`\n${c.bold}Split Plan for ${commit.shortHash}:${c.reset}`);
   console.log(`  ${c.dim}${plan.reasoning}${c.reset}\n`);
 
-  // Preview splits
   plan.splits.forEach((split, i) => {
     const diffLines = split.diff.split('\n').length;
-    console.log(`  ${c.cyan}${i + 1}.${c.reset} ${split.message}`);
+    console.log(`  ${c.cyan}${i + 1}.${c.reset} ${subject(split.message)}`);
     console.log(`     ${c.dim}${split.description} (${diffLines} lines of diff)${c.reset}`);
   });
+}
 
-  if (dryRun) {
-    console.log(`\n${c.yellow}Dry run - no changes made.${c.reset}`);
-    // Show diff previews
-    plan.splits.forEach((split, i) => {
-      console.log(`\n${c.bold}--- Patch ${i + 1}: ${split.message} ---${c.reset}`);
-      console.log(c.dim + split.diff.slice(0, 500) + (split.diff.length > 500 ? '\n...(truncated)' : '') + c.reset);
-    });
-    return true;
-  }
+/**
+ * Merge split `index` into its neighbour (the next one, or the previous one for the last split)
+ */
+function mergeWithNeighbour(plan: SplitPlan, index: number): SplitPlan {
+  const first = index < plan.splits.length - 1 ? index : index - 1;
+  const [a, b] = plan.splits.slice(first, first + 2);
+  const hunkIds = a.hunkIds && b.hunkIds ? [...a.hunkIds, ...b.hunkIds] : undefined;
+  const merged = {
+    message: `${a.message}\n\n${b.message}`,
+    description: `${a.description} ${b.description}`,
+    // git apply handles consecutive patches to the same file in order
+    diff: hunkIds && plan.files ? rebuildPatchFromHunks(plan.files, hunkIds) : a.diff + b.diff,
+    hunkIds,
+  };
+  return {
+    ...plan,
+    splits: [...plan.splits.slice(0, first), merged, ...plan.splits.slice(first + 2)],
+  };
+}
 
-  // Confirm
-  const readline = await import('readline');
-  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
-  const prompt = `\n${c.yellow}This will hard reset commit ${commit.shortHash} and apply ${plan.splits.length} patches.${c.reset}\nContinue? [y/N] `;
-  const answer = await new Promise<string>(resolve => rl.question(prompt, resolve));
-  rl.close();
+/**
+ * Ask whether to go ahead, offering to edit a hunk-level plan first.
+ * An edited plan is saved again to --plan-out, so the file matches what runs.
+ * Returns the plan to execute, or null if the user declined.
+ */
+async function confirmPlan(
+  commit: CommitInfo,
+  plan: SplitPlan,
+  describe: (plan: SplitPlan) => string,
+  options: SplitOptions
+): Promise<SplitPlan | null> {
+  // A saved plan is applied as written, however many commits it has
+  const maxSplits = options.applyPlan ? Infinity : options.maxSplits ?? DEFAULT_MAX_SPLITS;
+  for (;;) {
+    const editable = canEditPlan(plan);
+    const answer = await ask(`\n${c.yellow}${describe(plan)}${c.reset}\nContinue? [y/N${editable ? '/e(dit plan)' : ''}] `);
 
-  if (answer.toLowerCase() !== 'y') {
-    console.log('Aborted.');
-    return false;
+    if (answer.toLowerCase() === 'y') return plan;
+    if (answer.toLowerCase() !== 'e' || !editable) {
+      console.log('Aborted.');
+      return null;
+    }
+    const edited = await editPlan(plan, maxSplits);
+    if (edited) {
+      plan = edited;
+      if (options.planOut) savePlan(options.planOut, commit.hash || 'staged', plan);
+    }
+    printPlan(commit, plan);
   }
+}
 
-  // Check for uncommitted changes
-  const { output: status } = runGit(['status', '--porcelain']);
-  if (status.trim()) {
-    console.log(`${c.red}Error: Working directory has uncommitted changes.${c.reset}`);
-    return false;
-  }
+/**
+ * Reset to the parent of the commit and create one commit per split,
+ * running the verify command after each one
+ */
+async function applySplits(commit: CommitInfo, plan: SplitPlan, metadata: CommitMetadata, verify?: string): Promise<ApplyResult> {
+  const fs = await import('fs');
+  const path = await import('path');
+  const os = await import('os');
 
   // Create temp directory for patches
   const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-fission-'));
   console.log(`\n${c.dim}Saving patches to ${tmpDir}${c.reset}`);
 
-  // Save patches to temp files
-  const patchFiles: string[] = [];
-  for (const [i, split] of plan.splits.entries()) {
-    const patchFile = path.join(tmpDir, `${String(i + 1).padStart(2, '0')}-${split.message.slice(0, 30).replace(/[^a-zA-Z0-9]/g, '_')}.patch`);
-    fs.writeFileSync(patchFile, split.diff);
-    patchFiles.push(patchFile);
-    console.log(`  ${c.dim}Saved patch ${i + 1}: ${path.basename(patchFile)}${c.reset}`);
-  }
-
-  // Hard reset to remove the commit
-  console.log(`\n${c.dim}Hard resetting HEAD~1...${c.reset}`);
-  const { ok: resetOk, output: resetOut } = runGit(['reset', '--hard', 'HEAD~1']);
-  if (!resetOk) {
-    console.log(`${c.red}Error: Failed to hard reset: ${resetOut}${c.reset}`);
-    console.log(`${c.yellow}Patches saved in: ${tmpDir}${c.reset}`);
+  // Patches are only kept when the user is told where to find them
+  let keepPatches = false;
+  try {
+    // Save patches to temp files
+    const patchFiles: string[] = [];
+    for (const [i, split] of plan.splits.entries()) {
+      const patchFile = path.join(tmpDir, `${String(i + 1).padStart(2, '0')}-${subject(split.message).slice(0, 30).replace(/[^a-zA-Z0-9]/g, '_')}.patch`);
+      fs.writeFileSync(patchFile, split.diff);
+      patchFiles.push(patchFile);
+      console.log(`  ${c.dim}Saved patch ${i + 1}: ${path.basename(patchFile)}${c.reset}`);
+    }
+
+    // Hard reset to the parent of the commit being split
+    console.log(`\n${c.dim}Hard resetting to ${commit.shortHash}~1...${c.reset}`);
+    const { ok: resetOk, output: resetOut } = runGit(['reset', '--hard', `${commit.hash}~1`]);
+    if (!resetOk) {
+      console.log(`${c.red}Error: Failed to hard reset: ${resetOut}${c.reset}`);
+      keepPatches = true;
+      console.log(`${c.yellow}Patches saved in: ${tmpDir}${c.reset}`);
+      return { ok: false, verifyFailed: false };
+    }
+
+    // Apply patches one by one
+    for (const [i, split] of plan.splits.entries()) {
+      const patchFile = patchFiles[i];
+      console.log(`\n${c.dim}Applying patch ${i + 1}/${plan.splits.length}: ${subject(split.message).slice(0, 40)}...${c.reset}`);
+
+      // Apply the patch
+      const { ok: applyOk, output: applyOut } = runGit(['apply', '--check', patchFile]);
+      if (!applyOk) {
+        console.log(`${c.red}Patch ${i + 1} would fail to apply:${c.reset}`);
+        console.log(`  ${applyOut}`);
+        keepPatches = true;
+        console.log(`\n${c.yellow}Patches saved in: ${tmpDir}${c.reset}`);
+        console.log(`${c.yellow}You can manually apply remaining patches with: git apply <patch>${c.reset}`);
+        return { ok: false, verifyFailed: false };
+      }
+
+      // Actually apply it
+      runGit(['apply', patchFile]);
+
+      // Stage and commit
+      runGit(['add', '-A']);
+      const { ok: commitOk, output: commitOut } = runGit(['commit', ...signArgs(metadata.sign), '-F', '-'], {
+        input: withTrailers(split.message, metadata.trailers).trimEnd() + '\n',
+        env: authorEnv(metadata),
+      });
+      if (!commitOk) {
+        console.log(`${c.red}Error creating commit ${i + 1}: ${commitOut}${c.reset}`);
+        keepPatches = true;
+        console.log(`${c.yellow}Patches saved in: ${tmpDir}${c.reset}`);
+        return { ok: false, verifyFailed: false };
+      }
+      console.log(`  ${c.green}✓${c.reset} Created: ${subject(split.message).slice(0, 50)}`);
+
+      if (verify) {
+        console.log(`  ${c.dim}Verifying: ${verify}${c.reset}`);
+        const { output: hash } = runGit(['rev-parse', 'HEAD']);
+        const result = verifyCommit(hash, verify);
+        if (!result.ok) {
+          console.log(`  ${c.red}✗ Verification failed${c.reset}`);
+          return { ok: false, verifyFailed: true, index: i, output: result.output };
+        }
+        console.log(`  ${c.green}✓${c.reset} Verified`);
+      }
+    }
+
+    const { output: commits } = runGit(['rev-list', '--reverse', `${commit.hash}~1..HEAD`]);
+    return { ok: true, commits: commits.split('\n').filter(Boolean) };
+  } finally {
+    if (!keepPatches) {
+      try {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      } catch { /* ignore cleanup errors */ }
+    }
+  }
+}
+
+function printMetadata(metadata: CommitMetadata): void {
+  const { author, trailers, sign } = metadata;
+  if (author) console.log(`${c.dim}Author: ${author.name} <${author.email}>${c.reset}`);
+  if (trailers.length) console.log(`${c.dim}Trailers: ${trailers.join(', ')}${c.reset}`);
+  if (sign) console.log(`${c.dim}Signing: ${typeof sign === 'string' ? `with key ${sign}` : 'yes'}${c.reset}`);
+}
+
+function printDryRun(plan: SplitPlan): void {
+  console.log(`\n${c.yellow}Dry run - no changes made.${c.reset}`);
+  // Show diff previews
+  plan.splits.forEach((split, i) => {
+    console.log(`\n${c.bold}--- Patch ${i + 1}: ${subject(split.message)} ---${c.reset}`);
+    const body = split.message.split('\n').slice(1).join('\n').trim();
+    if (body) console.log(body.split('\n').map(line => line && `  ${line}`).join('\n') + '\n');
+    console.log(c.dim + split.diff.slice(0, 500) + (split.diff.length > 500 ? '\n...(truncated)' : '') + c.reset);
+  });
+  printDependencies(plan);
+}
+
+/**
+ * Show which commits use symbols defined in other commits of a hunk-level plan
+ */
+function printDependencies(plan: SplitPlan): void {
+  if (!plan.files || !plan.splits.every(split => split.hunkIds)) return;
+  const edges = commitEdges(plan.splits.map(split => ({ hunkIds: split.hunkIds || [] })), buildSymbolGraph(plan.files));
+  if (!edges.length) return;
+
+  const fileOf = new Map(plan.files.flatMap(f => f.hunks.map(h => [h.id, f.filePath] as const)));
+  console.log(`\n${c.bold}Symbol dependencies:${c.reset}`);
+  // Several hunks of one file can use the same symbol; list it once
+  const printed = new Set<string>();
+  for (const edge of edges) {
+    const line = `Commit ${edge.fromCommit + 1} uses ${edge.symbol} (${fileOf.get(edge.from)}) from commit ${edge.toCommit + 1} (${fileOf.get(edge.to)})`;
+    if (printed.has(line)) continue;
+    printed.add(line);
+    console.log(edge.toCommit > edge.fromCommit
+      ? `  ${c.red}✗ ${line}, which comes later${c.reset}`
+      : `  ${c.dim}${line}${c.reset}`);
+  }
+}
+
+/**
+ * Show what is missing from `actual` to get `expected`
+ */
+function printLeftover(actual: string, expected: string): void {
+  const { output: stat } = runGit(['diff', '--stat', actual, expected]);
+  const { output: diff } = runGit(['diff', actual, expected]);
+  stat.split('\n').forEach(line => console.log(`  ${line}`));
+  const lines = diff.split('\n');
+  console.log(c.dim + lines.slice(0, 40).join('\n') + (lines.length > 40 ? '\n...(truncated)' : '') + c.reset);
+}
+
+/**
+ * Dry-run check that the patches, applied in order to `base` in a scratch
+ * index, end in the `expected` tree
+ */
+function printTreeCheck(plan: SplitPlan, base: string, expected: string, name: string): void {
+  const tree = scratchTree(base, plan);
+  if (!tree) {
+    console.log(`\n${c.red}✗ The patches cannot be applied in order, so the split would fail.${c.reset}`);
+  } else if (tree === expected) {
+    console.log(`\n${c.green}✓${c.reset} The patches add up to ${name}.`);
+  } else {
+    console.log(`\n${c.red}✗ The patches do not add up to ${name}. Left over:${c.reset}`);
+    printLeftover(tree, expected);
+  }
+}
+
+/**
+ * Check that the last split commit has the `expected` tree. If it doesn't,
+ * show what was left over and let the user restore the original or add a
+ * final commit with the remainder.
+ * Returns the commits (with the remainder commit, if added), or null to restore.
+ */
+async function ensureSameTree(
+  commits: string[],
+  expected: string,
+  name: string,
+  remainderMessage: string,
+  metadata: CommitMetadata
+): Promise<string[] | null> {
+  const last = commits[commits.length - 1];
+  if (treeOf(last) === expected) {
+    console.log(`\n${c.green}✓${c.reset} The split commits add up to ${name}.`);
+    return commits;
+  }
+
+  console.log(`\n${c.red}The split commits do not add up to ${name}. Left over:${c.reset}`);
+  printLeftover(last, expected);
+  const choice = (await ask(`\n[r]estore the original, or add a [c]ommit with the remainder? [R/c] `)).toLowerCase();
+  if (isInputClosed()) {
+    console.log(`${c.yellow}No answer (input closed); restoring the original.${c.reset}`);
+    return null;
+  }
+  if (choice !== 'c') return null;
+
+  const remainder = commitRemainder(expected, last, remainderMessage, metadata);
+  if (!remainder) {
+    console.log(`${c.red}Error creating the remainder commit${c.reset}`);
+    return null;
+  }
+  console.log(`  ${c.green}✓${c.reset} Created ${remainder.slice(0, 8)}: ${subject(remainderMessage)}`);
+  return [...commits, remainder];
+}
+
+/**
+ * Create the split commits with `build`, and when one of them fails
+ * verification, let the user merge it into a neighbour or re-plan, then retry.
+ * Returns the final plan and commits, or null if the user aborted or building failed.
+ */
+async function createVerifiedCommits(
+  plan: SplitPlan,
+  build: (plan: SplitPlan) => Promise<ApplyResult>,
+  commit: CommitInfo,
+  options: SplitOptions,
+  replan: Replanner | undefined,
+  restore: () => void
+): Promise<{ plan: SplitPlan; commits: string[] } | null> {
+  for (;;) {
+    const result = await build(plan);
+    if (result.ok) return { plan, commits: result.commits };
+    if (!result.verifyFailed) return null;
+
+    const failed = plan.splits[result.index];
+    console.log(`\n${c.red}Split ${result.index + 1}/${plan.splits.length} (${subject(failed.message)}) failed: ${options.verify}${c.reset}`);
+    const tail = result.output.split('\n').slice(-20);
+    tail.forEach(line => console.log(`  ${c.dim}${line}${c.reset}`));
+
+    const choices = [
+      plan.splits.length > 1 ? '[m]erge into neighbour' : '',
+      replan ? '[r]e-plan with LLM' : '',
+      '[a]bort',
+    ].filter(Boolean).join(', ');
+    const choice = (await ask(`\n${choices}? `)).toLowerCase();
+
+    if (choice === 'm' && plan.splits.length > 1) {
+      plan = mergeWithNeighbour(plan, result.index);
+    } else if (choice === 'r' && replan) {
+      console.log(`\n${c.dim}Asking LLM for a new split plan...${c.reset}`);
+      const feedback = `Commit ${result.index + 1} ("${subject(failed.message)}") failed \`${options.verify}\`:\n${result.output.slice(-3000)}`;
+      const newPlan = await replan(feedback);
+      if (!newPlan || newPlan.splits.length < 1) {
+        restore();
+        return null;
+      }
+      plan = newPlan;
+    } else {
+      console.log(isInputClosed() ? 'No answer (input closed); aborting.' : 'Aborted.');
+      restore();
+      return null;
+    }
+    printPlan(commit, plan);
+  }
+}
+
+export async function executeSplit(
+  commit: CommitInfo,
+  plan: SplitPlan,
+  options: SplitOptions,
+  replan?: Replanner
+): Promise<boolean> {
+  printPlan(commit, plan);
+
+  if (options.dryRun) {
+    printDryRun(plan);
+    const expected = treeOf(commit.hash);
+    const { ok: hasParent } = runGit(['rev-parse', '--verify', '--quiet', `${commit.hash}~1`]);
+    if (expected && hasParent) printTreeCheck(plan, `${commit.hash}~1`, expected, commit.shortHash);
+    return true;
+  }
+
+  // Commits after the one being split have to be replayed on top
+  const descendants = getDescendants(commit.hash);
+  if (!descendants) {
+    console.log(`${c.red}Error: ${commit.shortHash} is not an ancestor of HEAD.${c.reset}`);
+    return false;
+  }
+  const { output: merges } = runGit(['rev-list', '--merges', `${commit.hash}..HEAD`]);
+  if (merges) {
+    console.log(`${c.red}Error: Cannot replay merge commits between ${commit.shortHash} and HEAD.${c.reset}`);
+    return false;
+  }
+  const { ok: hasParent, output: parent } = runGit(['rev-parse', '--verify', '--quiet', `${commit.hash}~1`]);
+  if (!hasParent) {
+    console.log(`${c.red}Error: Cannot split the root commit.${c.reset}`);
+    return false;
+  }
+  if (loadReplayState()) {
+    console.log(`${c.red}Error: A split is already in progress. Use --continue or --abort.${c.reset}`);
     return false;
   }
 
-  // Apply patches one by one
-  for (const [i, split] of plan.splits.entries()) {
-    const patchFile = patchFiles[i];
-    console.log(`\n${c.dim}Applying patch ${i + 1}/${plan.splits.length}: ${split.message.slice(0, 40)}...${c.reset}`);
+  // Confirm, possibly after editing the plan
+  const useIndex = options.executor === 'index';
+  const replayNote = descendants.length ? ` and replay ${descendants.length} later commit(s)` : '';
+  const confirmed = await confirmPlan(commit, plan, p => useIndex
+    ? `This will rewrite commit ${commit.shortHash} into ${p.splits.length} commits${replayNote}, without touching the working tree.`
+    : `This will hard reset commit ${commit.shortHash}, apply ${p.splits.length} patches${replayNote}.`, options);
+  if (!confirmed) return false;
+  plan = confirmed;
 
-    // Apply the patch
-    const { ok: applyOk, output: applyOut } = runGit(['apply', '--check', patchFile]);
-    if (!applyOk) {
-      console.log(`${c.red}Patch ${i + 1} would fail to apply:${c.reset}`);
-      console.log(`  ${applyOut}`);
-      console.log(`\n${c.yellow}Patches saved in: ${tmpDir}${c.reset}`);
-      console.log(`${c.yellow}You can manually apply remaining patches with: git apply <patch>${c.reset}`);
+  // Check for uncommitted changes (the index executor leaves them alone)
+  if (!useIndex) {
+    const { output: status } = runGit(['status', '--porcelain']);
+    if (status.trim()) {
+      console.log(`${c.red}Error: Working directory has uncommitted changes.${c.reset}`);
+      console.log(`${c.yellow}Tip: Use '--executor index' to split without touching the working tree.${c.reset}`);
       return false;
     }
+  }
 
-    // Actually apply it
-    runGit(['apply', patchFile]);
+  const { output: originalHead } = runGit(['rev-parse', 'HEAD']);
+  const { output: branch } = runGit(['rev-parse', '--abbrev-ref', 'HEAD']);
 
-    // Stage and commit
-    runGit(['add', '-A']);
-    const { ok: commitOk, output: commitOut } = runGit(['commit', '-m', split.message]);
-    if (!commitOk) {
-      console.log(`${c.red}Error creating commit ${i + 1}: ${commitOut}${c.reset}`);
-      console.log(`${c.yellow}Patches saved in: ${tmpDir}${c.reset}`);
+  // Save the original history before anything is reset
+  const backupId = createBackup(commit, originalHead, branch);
+  if (!backupId) return false;
+
+  // Split commits keep the original author and trailers
+  const metadata = getCommitMetadata(commit.hash, options.trailers, resolveSigning(options.sign));
+  printMetadata(metadata);
+
+  let restored = false;
+  const restore = () => {
+    if (!useIndex) runGit(['reset', '--hard', originalHead]);
+    console.log(`${c.yellow}${branch} is unchanged at ${originalHead.slice(0, 8)}.${c.reset}`);
+    restored = true;
+  };
+
+  // Create the split commits, adjusting the plan until every one passes verification
+  const created = await createVerifiedCommits(
+    plan,
+    p => useIndex ? Promise.resolve(buildSplitCommits(parent, p, metadata, options.verify)) : applySplits(commit, p, metadata, options.verify),
+    commit,
+    options,
+    replan,
+    restore
+  );
+  if (!created) {
+    if (!useIndex && !restored) console.log(`${c.yellow}The original history is at ${originalHead.slice(0, 8)}.${c.reset}`);
+    return false;
+  }
+  plan = created.plan;
+
+  // The split commits must end in the original commit's tree
+  const remainderMessage = `${commit.message} (remainder)\n\nChanges from ${commit.shortHash} that none of the other split commits include.`;
+  const expected = treeOf(commit.hash);
+  if (!expected) {
+    console.log(`${c.red}Error: Could not read the tree of ${commit.shortHash} to check the split.${c.reset}`);
+    restore();
+    return false;
+  }
+  const splitInto = await ensureSameTree(created.commits, expected, commit.shortHash, remainderMessage, metadata);
+  if (!splitInto) {
+    restore();
+    return false;
+  }
+  if (!useIndex && splitInto.length > created.commits.length) {
+    runGit(['reset', '--hard', splitInto[splitInto.length - 1]]);
+  }
+
+  console.log(`\n${c.green}✓ Successfully split into ${splitInto.length} commits!${c.reset}`);
+
+  if (useIndex) {
+    // Later commits keep their trees, so they can be re-parented without a checkout
+    let newHead = splitInto[splitInto.length - 1];
+    if (descendants.length > 0) {
+      const replayed = rewriteDescendants(descendants, newHead, metadata.sign);
+      if (!replayed) {
+        console.log(`${c.red}Error: Failed to replay later commits. Nothing was changed.${c.reset}`);
+        return false;
+      }
+      newHead = replayed;
+    }
+
+    if (!moveHead(newHead, originalHead, `git-fission: split ${commit.shortHash}`)) return false;
+    if (!sameTree(newHead, originalHead)) {
+      console.log(`${c.yellow}Note: The new HEAD differs from the original; the difference now shows up as uncommitted changes.${c.reset}`);
+    }
+  } else if (descendants.length > 0) {
+    // Replay the commits that came after the split one
+    if (!replayCommits({ branch, originalHead, remaining: descendants, sign: metadata.sign, backupId })) {
+      recordSplitResult(backupId, splitInto);
       return false;
     }
-    console.log(`  ${c.green}✓${c.reset} Created: ${split.message.slice(0, 50)}`);
   }
 
-  // Cleanup temp directory
-  try {
-    for (const f of fs.readdirSync(tmpDir)) fs.unlinkSync(path.join(tmpDir, f));
-    fs.rmdirSync(tmpDir);
-  } catch { /* ignore cleanup errors */ }
-
-  console.log(`\n${c.green}✓ Successfully split into ${plan.splits.length} commits!${c.reset}`);
+  const { output: resultHead } = runGit(['rev-parse', 'HEAD']);
+  recordSplitResult(backupId, splitInto, resultHead);
 
-  const { output: log } = runGit(['log', '--oneline', `-${plan.splits.length + 1}`]);
+  const { output: log } = runGit(['log', '--oneline', `-${splitInto.length + descendants.length + 1}`]);
   console.log(`\n${c.bold}New commits:${c.reset}`);
   log.split('\n').forEach(line => console.log(`  ${line}`));
 
   return true;
 }
 
-export async function splitCommit(commitRef: string, config: LLMConfig, dryRun: boolean, instruction?: string): Promise<boolean> {
+export async function splitCommit(commitRef: string, config: LLMConfig, options: SplitOptions): Promise<boolean> {
+  const { instruction, granularity, maxSplits } = options;
   console.log(`${c.bold}Analyzing commit for split...${c.reset}`);
   if (instruction) {
     console.log(`  ${c.cyan}Custom instruction: ${instruction.slice(0, 200)}${instruction.length > 200 ? '...' : ''}${c.reset}`);
@@ -137,23 +555,104 @@ export async function splitCommit(commitRef: string, config: LLMConfig, dryRun:
 
   console.log(`  Commit: ${commit.shortHash} - ${commit.message.slice(0, 50)}`);
   console.log(`  Files: ${commit.filesChanged}, Lines: +${commit.insertions}/-${commit.deletions}`);
-  if (commit.diff?.endsWith('(truncated)')) {
-    console.log(`  ${c.yellow}Note: Diff truncated to 200KB for analysis${c.reset}`);
+
+  const plan = await getPlan(() => generateSplitPlan(commit, config, { instruction, granularity, maxSplits }), commit, config, options);
+  if (!plan) return false;
+
+  if (plan.splits.length < 2) {
+    console.log(`${c.green}${singleCommitNote(options, 'LLM determined this commit is already atomic.')}${c.reset}`);
+    return true;
+  }
+
+  const replan: Replanner = feedback => requestPlan(() => generateSplitPlan(commit, config, { instruction, granularity, maxSplits, feedback }), config);
+  return executeSplit(commit, plan, options, options.strategy === 'llm' ? replan : undefined);
+}
+
+/**
+ * Create split commits on top of HEAD straight from the staged changes.
+ * Always uses the index executor; the working tree is left alone.
+ */
+export async function executeStagedSplit(
+  staged: CommitInfo,
+  head: string,
+  plan: SplitPlan,
+  options: SplitOptions,
+  replan?: Replanner
+): Promise<boolean> {
+  printPlan(staged, plan);
+
+  if (options.dryRun) {
+    printDryRun(plan);
+    const { ok, output: stagedTree } = runGit(['write-tree']);
+    if (ok) printTreeCheck(plan, head, stagedTree, 'the staged changes');
+    return true;
+  }
+
+  const confirmed = await confirmPlan(staged, plan, p => `This will create ${p.splits.length} commits from the staged changes.`, options);
+  if (!confirmed) return false;
+  plan = confirmed;
+
+  const { output: stagedTree } = runGit(['write-tree']);
+  const metadata = getCommitMetadata(null, [], resolveSigning(options.sign));
+
+  const created = await createVerifiedCommits(
+    plan,
+    p => Promise.resolve(buildSplitCommits(head, p, metadata, options.verify)),
+    staged,
+    options,
+    replan,
+    () => console.log(`${c.yellow}Nothing was committed.${c.reset}`)
+  );
+  if (!created) return false;
+
+  // The split commits must end in the staged tree
+  const commits = await ensureSameTree(created.commits, stagedTree, 'the staged changes', 'Add the remaining staged changes', metadata);
+  if (!commits) {
+    console.log(`${c.yellow}Nothing was committed.${c.reset}`);
+    return false;
+  }
+
+  const newHead = commits[commits.length - 1];
+  if (!moveHead(newHead, head, 'git-fission: split staged changes')) return false;
+
+  console.log(`\n${c.green}✓ Committed staged changes as ${commits.length} commits!${c.reset}`);
+
+  const { output: log } = runGit(['log', '--oneline', `-${commits.length + 1}`]);
+  console.log(`\n${c.bold}New commits:${c.reset}`);
+  log.split('\n').forEach(line => console.log(`  ${line}`));
+
+  return true;
+}
+
+export async function splitStaged(config: LLMConfig, options: SplitOptions): Promise<boolean> {
+  const { instruction, granularity, maxSplits } = options;
+  console.log(`${c.bold}Analyzing staged changes for split...${c.reset}`);
+  if (instruction) {
+    console.log(`  ${c.cyan}Custom instruction: ${instruction.slice(0, 200)}${instruction.length > 200 ? '...' : ''}${c.reset}`);
   }
 
-  console.log(`\n${c.dim}Generating split plan with LLM...${c.reset}`);
-  const plan = await generateSplitPlan(commit, config, instruction);
+  const { ok: hasHead, output: head } = runGit(['rev-parse', '--verify', '--quiet', 'HEAD']);
+  if (!hasHead) {
+    console.log(`${c.red}Error: Cannot split staged changes before the first commit${c.reset}`);
+    return false;
+  }
 
-  if (!plan) {
-    console.log(`${c.red}Error: LLM failed to generate a split plan.${c.reset}`);
-    console.log(`${c.yellow}This may be due to the diff being too large or complex.${c.reset}`);
+  const staged = getStagedInfo();
+  if (!staged) {
+    console.log(`${c.yellow}No staged changes to split.${c.reset}`);
     return false;
   }
 
+  console.log(`  Files: ${staged.filesChanged}, Lines: +${staged.insertions}/-${staged.deletions}`);
+
+  const plan = await getPlan(() => generateSplitPlan(staged, config, { instruction, granularity, maxSplits, base: head }), staged, config, options);
+  if (!plan) return false;
+
   if (plan.splits.length < 2) {
-    console.log(`${c.green}LLM determined this commit is already atomic.${c.reset}`);
+    console.log(`${c.green}${singleCommitNote(options, 'LLM determined the staged changes are already atomic.')}${c.reset} Commit them as usual.`);
     return true;
   }
 
-  return executeSplit(commit, plan, dryRun);
+  const replan: Replanner = feedback => requestPlan(() => generateSplitPlan(staged, config, { instruction, granularity, maxSplits, base: head, feedback }), config);
+  return executeStagedSplit(staged, head, plan, options, options.strategy === 'llm' ? replan : undefined);
 }
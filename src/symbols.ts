@@ -0,0 +1,208 @@
+/**
+ * Static symbol dependencies between hunks
+ *
+ * For TypeScript/JavaScript, Python and Go, finds the top-level names each
+ * hunk newly defines (functions, classes, types, constants, ...) and the
+ * names its added lines reference. A hunk that references a name another
+ * hunk defines depends on it, so the commit holding the definition has to
+ * come first. This is a line-based approximation, not a parser: only
+ * declarations starting in column 0 count, and names defined by more than
+ * one hunk are ignored as ambiguous. A name from another file only counts
+ * if the referencing file's added lines import it (or, in Go, if both files
+ * are in the same package directory), so a local variable that happens to
+ * share a top-level name elsewhere is not taken for a dependency.
+ */
+
+import * as path from 'path';
+import type { ParsedFileDiff } from './git.js';
+
+type Language = 'js' | 'python' | 'go';
+
+const LANGUAGES: Record<string, Language> = {
+  '.ts': 'js', '.tsx': 'js', '.mts': 'js', '.cts': 'js',
+  '.js': 'js', '.jsx': 'js', '.mjs': 'js', '.cjs': 'js',
+  '.py': 'python',
+  '.go': 'go',
+};
+
+const DEFINITIONS: Record<Language, RegExp[]> = {
+  js: [
+    /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:const\s+enum|function\*?|class|interface|type|enum|namespace|const|let|var)\s+([A-Za-z_$][\w$]*)/,
+  ],
+  python: [
+    /^(?:async\s+)?def\s+([A-Za-z_]\w*)/,
+    /^class\s+([A-Za-z_]\w*)/,
+    /^([A-Za-z_]\w*)\s*(?::[^=]*)?=(?!=)/,
+  ],
+  go: [
+    /^func\s+([A-Za-z_]\w*)/,
+    /^(?:type|var|const)\s+([A-Za-z_]\w*)/,
+  ],
+};
+
+// Start of an import statement; Go files in one package share their
+// top-level names without importing them
+const IMPORTS: Record<Language, RegExp | null> = {
+  js: /^\s*(?:import\b|export\s*(?:type\s*)?\{)|\brequire\s*\(/,
+  python: /^\s*(?:from\s+\S+\s+)?import\b/,
+  go: null,
+};
+
+const LINE_COMMENT: Record<Language, RegExp> = {
+  js: /\/\/.*$/,
+  python: /#.*$/,
+  go: /\/\/.*$/,
+};
+
+/**
+ * A hunk that uses a symbol defined by another hunk
+ */
+export interface SymbolEdge {
+  from: number;         // Hunk that references the symbol
+  to: number;           // Hunk that defines it
+  symbol: string;
+}
+
+function languageOf(filePath: string): Language | null {
+  return LANGUAGES[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+function definedOn(line: string, language: Language): string | null {
+  for (const pattern of DEFINITIONS[language]) {
+    const match = line.match(pattern);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Identifiers on a line, leaving out strings, comments and property names
+ */
+function identifiersOn(line: string, language: Language): string[] {
+  const code = line
+    .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+    .replace(LINE_COMMENT[language], '');
+  return code.match(/(?<![\w$.])[A-Za-z_$][\w$]*/g) || [];
+}
+
+/**
+ * Names that import statements on a file's added lines bring in, following
+ * a statement over several lines until its brackets are closed
+ */
+function importedNames(lines: string[], language: Language): Set<string> {
+  const names = new Set<string>();
+  const pattern = IMPORTS[language];
+  if (!pattern) return names;
+
+  let depth = 0;
+  for (const line of lines) {
+    if (!depth && !pattern.test(line)) continue;
+    const code = line.replace(LINE_COMMENT[language], '');
+    identifiersOn(code, language).forEach(id => names.add(id));
+    depth = Math.max(0, depth + (code.match(/[{(]/g)?.length ?? 0) - (code.match(/[})]/g)?.length ?? 0));
+  }
+  return names;
+}
+
+/**
+ * Whether a hunk in `from` can see a top-level name defined in `to`
+ */
+function inScope(symbol: string, from: string, to: string, language: Language, imports: Map<string, Set<string>>): boolean {
+  if (from === to) return true;
+  if (language === 'go') return languageOf(to) === 'go' && path.posix.dirname(from) === path.posix.dirname(to);
+  return !!imports.get(from)?.has(symbol);
+}
+
+/**
+ * Find which hunks use symbols that other hunks in the diff define
+ */
+export function buildSymbolGraph(files: ParsedFileDiff[]): SymbolEdge[] {
+  const definers = new Map<string, number[]>();
+  const removed = new Set<string>();
+  const references = new Map<number, Set<string>>();
+  const fileOf = new Map<number, string>();
+  const languages = new Map<string, Language>();
+  const imports = new Map<string, Set<string>>();
+
+  for (const file of files) {
+    const language = languageOf(file.filePath);
+    if (!language) continue;
+    languages.set(file.filePath, language);
+
+    const added: string[] = [];
+    for (const hunk of file.hunks) {
+      const used = new Set<string>();
+      for (const line of hunk.content.split('\n')) {
+        const text = line.slice(1);
+        const name = definedOn(text, language);
+        if (line.startsWith('-')) {
+          if (name) removed.add(name);
+        } else if (line.startsWith('+')) {
+          if (name) definers.set(name, [...(definers.get(name) || []), hunk.id]);
+          identifiersOn(text, language).forEach(id => used.add(id));
+          added.push(text);
+        }
+      }
+      references.set(hunk.id, used);
+      fileOf.set(hunk.id, file.filePath);
+    }
+    imports.set(file.filePath, importedNames(added, language));
+  }
+
+  // A name that was already defined before the change is not new
+  const edges: SymbolEdge[] = [];
+  for (const [symbol, hunks] of definers) {
+    if (removed.has(symbol) || new Set(hunks).size > 1) continue;
+    const to = hunks[0];
+    const toFile = fileOf.get(to) || '';
+    for (const [from, used] of references) {
+      if (from === to || !used.has(symbol)) continue;
+      const fromFile = fileOf.get(from) || '';
+      const language = languages.get(fromFile);
+      if (language && inScope(symbol, fromFile, toFile, language, imports)) edges.push({ from, to, symbol });
+    }
+  }
+  return edges;
+}
+
+/**
+ * Edges from a commit to an earlier or later commit, by commit index
+ */
+export function commitEdges(commits: Array<{ hunkIds: number[] }>, edges: SymbolEdge[]): Array<SymbolEdge & { fromCommit: number; toCommit: number }> {
+  const owner = new Map(commits.flatMap((commit, i) => commit.hunkIds.map(id => [id, i] as const)));
+  return edges.flatMap(edge => {
+    const fromCommit = owner.get(edge.from);
+    const toCommit = owner.get(edge.to);
+    if (fromCommit === undefined || toCommit === undefined || fromCommit === toCommit) return [];
+    return [{ ...edge, fromCommit, toCommit }];
+  });
+}
+
+/**
+ * Describe every commit that uses a symbol first defined in a later commit
+ */
+export function forwardReferences(commits: Array<{ hunkIds: number[] }>, edges: SymbolEdge[]): string[] {
+  return commitEdges(commits, edges)
+    .filter(edge => edge.toCommit > edge.fromCommit)
+    .map(edge => `Commit ${edge.fromCommit + 1} uses \`${edge.symbol}\` (hunk ${edge.from}), which is first defined in commit ${edge.toCommit + 1} (hunk ${edge.to})`);
+}
+
+/**
+ * Reorder commits so every symbol is defined before it is used, keeping
+ * the original order wherever the dependencies allow.
+ * Returns null if the commits depend on each other in a cycle.
+ */
+export function orderByDependencies<T extends { hunkIds: number[] }>(commits: T[], edges: SymbolEdge[]): T[] | null {
+  const needs = commits.map(() => new Set<number>());
+  for (const edge of commitEdges(commits, edges)) needs[edge.fromCommit].add(edge.toCommit);
+
+  const placed = new Set<number>();
+  const order: T[] = [];
+  while (order.length < commits.length) {
+    const next = commits.findIndex((_, i) => !placed.has(i) && [...needs[i]].every(n => placed.has(n)));
+    if (next < 0) return null;
+    placed.add(next);
+    order.push(commits[next]);
+  }
+  return order;
+}
@@ -0,0 +1,194 @@
+/**
+ * Shared transport for LLM requests
+ *
+ * Every provider call goes through sendWithRetries, which adds a per-request
+ * timeout, retries transient failures (rate limits, 5xx, network errors) with
+ * exponential backoff or the server's Retry-After, and cancels in-flight
+ * requests on Ctrl-C. Failures are raised as LLMError with a kind, so callers
+ * can tell the user what actually went wrong.
+ */
+
+import fetch from 'node-fetch';
+import { c } from './config.js';
+import type { LLMConfig } from './types.js';
+
+export type LLMErrorKind =
+  | 'auth'              // Missing or rejected credentials
+  | 'quota'             // Billing or quota limit reached
+  | 'rate-limit'        // Still rate limited after retrying
+  | 'context-too-long'  // Prompt doesn't fit the model's context window
+  | 'network'           // Provider could not be reached
+  | 'timeout'           // No response within the timeout
+  | 'server'            // Provider-side error (5xx)
+  | 'cancelled'         // Interrupted with Ctrl-C
+  | 'api';              // Any other error reported by the provider
+
+const RETRYABLE: LLMErrorKind[] = ['rate-limit', 'network', 'timeout', 'server'];
+
+export class LLMError extends Error {
+  constructor(
+    public kind: LLMErrorKind,
+    message: string,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60000;
+
+const CONTEXT_TOO_LONG = /context.{0,20}(length|window|limit)|prompt is too long|input is too long|too many (input )?tokens|maximum.{0,30}tokens/i;
+const QUOTA = /quota|billing|insufficient.{0,10}(funds|credits|balance)|credit balance/i;
+
+/**
+ * Map an HTTP error status (and the provider's message) to an LLMError
+ */
+export function httpError(status: number, message: string, retryAfter?: string | null): LLMError {
+  const detail = `HTTP ${status}: ${message}`;
+  if (CONTEXT_TOO_LONG.test(message) || status === 413) return new LLMError('context-too-long', detail);
+  if (status === 401 || status === 403) return new LLMError('auth', detail);
+  if (status === 402 || QUOTA.test(message)) return new LLMError('quota', detail);
+  if (status === 429) return new LLMError('rate-limit', detail, parseRetryAfter(retryAfter));
+  if (status === 408) return new LLMError('timeout', detail);
+  if (status >= 500) return new LLMError('server', detail, parseRetryAfter(retryAfter));
+  return new LLMError('api', detail);
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(header?: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(ms) ? Math.min(Math.max(ms, 0), MAX_DELAY_MS) : undefined;
+}
+
+/**
+ * POST a JSON body and return the parsed JSON response, raising an
+ * LLMError for HTTP errors and error objects in the response body
+ */
+export async function postJSON(url: string, headers: Record<string, string>, body: unknown, signal: AbortSignal): Promise<any> {
+  const resp = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: signal as any,
+  });
+
+  const text = await resp.text();
+  let data: any = null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // Not JSON (e.g. a proxy's HTML error page); reported below
+  }
+
+  const error = data?.error;
+  const message = (typeof error === 'string' ? error : error?.message) || data?.message || text.slice(0, 200) || resp.statusText;
+  if (!resp.ok) throw httpError(resp.status, message, resp.headers.get('retry-after'));
+  if (error) throw httpError(typeof error.code === 'number' ? error.code : 400, message);
+  if (!data) throw new LLMError('api', `Response is not JSON: ${text.slice(0, 200)}`);
+  return data;
+}
+
+// Ctrl-C aborts every request in flight; a second Ctrl-C exits immediately
+const cancel = new AbortController();
+let inFlight = 0;
+
+function onSigint(): void {
+  if (cancel.signal.aborted) process.exit(130);
+  console.error(`\n${c.yellow}Cancelling LLM request... (press Ctrl-C again to exit)${c.reset}`);
+  cancel.abort();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      cancel.signal.removeEventListener('abort', done);
+      resolve();
+    }
+    cancel.signal.addEventListener('abort', done);
+  });
+}
+
+function toLLMError(e: unknown, timedOut: boolean): LLMError {
+  if (cancel.signal.aborted) return new LLMError('cancelled', 'Cancelled');
+  if (e instanceof LLMError) return e;
+  if (timedOut) return new LLMError('timeout', 'Request timed out');
+  const message = e instanceof Error ? e.message : String(e);
+  return new LLMError('network', message);
+}
+
+/**
+ * Run one provider request with a timeout, retrying transient failures.
+ * `attempt` must honour the signal it is given.
+ */
+export async function sendWithRetries<T>(attempt: (signal: AbortSignal) => Promise<T>, timeoutSeconds: number): Promise<T> {
+  if (cancel.signal.aborted) throw new LLMError('cancelled', 'Cancelled');
+
+  if (inFlight++ === 0) process.on('SIGINT', onSigint);
+  try {
+    for (let retry = 0; ; retry++) {
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      let timedOut = false;
+      const timer = setTimeout(() => { timedOut = true; abort(); }, timeoutSeconds * 1000);
+      cancel.signal.addEventListener('abort', abort);
+
+      try {
+        return await attempt(controller.signal);
+      } catch (e) {
+        const error = toLLMError(e, timedOut);
+        if (timedOut) error.message = `No response within ${timeoutSeconds}s`;
+        if (!error.retryable || retry >= MAX_RETRIES) throw error;
+
+        const delay = error.retryAfterMs ?? Math.min(BASE_DELAY_MS * 2 ** retry + Math.random() * 250, MAX_DELAY_MS);
+        console.error(`  ${c.dim}${error.kind} (${error.message.slice(0, 80)}), retrying in ${(delay / 1000).toFixed(1)}s...${c.reset}`);
+        await sleep(delay);
+        if (cancel.signal.aborted) throw new LLMError('cancelled', 'Cancelled');
+      } finally {
+        clearTimeout(timer);
+        cancel.signal.removeEventListener('abort', abort);
+      }
+    }
+  } finally {
+    if (--inFlight === 0) process.off('SIGINT', onSigint);
+  }
+}
+
+/**
+ * Explain an LLM failure and what to do about it
+ */
+export function describeLLMError(error: LLMError, config: LLMConfig): string {
+  const { provider, model } = config;
+  switch (error.kind) {
+    case 'auth':
+      return `Authentication with ${provider} failed (${error.message}). Check the API key or credentials.`;
+    case 'quota':
+      return `${provider} quota or billing limit reached (${error.message}).`;
+    case 'rate-limit':
+      return `Still rate limited by ${provider} after ${MAX_RETRIES} retries. Try again later or lower --concurrency.`;
+    case 'context-too-long':
+      return `The diff does not fit in ${model}'s context window. Use a model with a larger context, or split the commit manually first.`;
+    case 'network':
+      return `Could not reach ${provider} (${error.message}). Check your network connection or base URL.`;
+    case 'timeout':
+      return `${provider} did not respond in time (${error.message}). Raise the timeout with --timeout.`;
+    case 'server':
+      return `${provider} kept failing with a server error (${error.message}). Try again later.`;
+    case 'cancelled':
+      return 'Cancelled.';
+    case 'api':
+      return `${provider} returned an error: ${error.message}`;
+  }
+}
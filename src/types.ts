@@ -2,18 +2,48 @@
  * Type definitions for git-fission
  */
 
-export type LLMProvider = 'bedrock' | 'anthropic' | 'openai' | 'openrouter';
+import type { ParsedFileDiff } from './git.js';
+
+export type LLMProvider = 'bedrock' | 'anthropic' | 'openai' | 'openrouter' | 'openai-compatible';
 
 export interface LLMConfig {
   provider: LLMProvider;
   model: string;
   apiKey?: string;
+  baseUrl?: string;     // Server URL for openai-compatible (e.g. a local Ollama)
+  timeout?: number;     // Seconds per request (default: DEFAULT_TIMEOUT)
+  cache?: boolean;      // Reuse cached responses (default: true)
+  contextWindow?: number;   // Tokens; looked up from the model name if unset
+}
+
+/**
+ * Settings that can come from the repo config file, git config, env or flags
+ */
+export interface Settings {
+  provider: LLMProvider;
+  model: string;
+  baseUrl?: string;         // Server URL for the openai-compatible provider
+  instruction?: string;     // Default --instruction for splits
+  threshold: number;        // Minimum score for range checks
+  ignore: string[];         // Pathspecs left out of atomicity checks
+  maxSplits: number;        // Most commits a split may produce
+  timeout: number;          // Seconds per LLM request
+  contextWindow?: number;   // Model context window in tokens (default: by model)
+  trailers: string[];       // Trailer keys copied from a split commit to every piece
+}
+
+export type SettingSource = 'default' | '.git-fission.json' | '.git-fissionrc' | 'git config' | 'env' | 'flag';
+
+export interface ResolvedSettings {
+  values: Settings;
+  sources: Record<keyof Settings, SettingSource>;
 }
 
 export interface CommitInfo {
   hash: string;
   shortHash: string;
-  message: string;
+  message: string;      // Subject line
+  body: string;         // Rest of the message after the subject ('' if none)
   author: string;
   filesChanged: number;
   insertions: number;
@@ -30,21 +60,98 @@ export interface LLMAnalysis {
   splitSuggestion?: string;
 }
 
+/**
+ * How much each signal counts towards the atomicity score.
+ * Weights are relative; they don't need to add up to 1.
+ */
+export interface ScoreWeights {
+  llm: number;
+  files: number;      // File relatedness heuristic
+  message: number;    // Commit message heuristic
+}
+
+export interface CheckOptions {
+  weights: ScoreWeights;
+  offline: boolean;   // Skip the LLM and score with heuristics only
+  ignore: string[];   // Pathspecs left out of the analysis
+  threshold: number;  // Minimum score for a heuristic-only report to count as atomic
+}
+
+// 'heuristic' when the LLM was skipped or unreachable
+export type AnalysisMode = 'llm' | 'heuristic';
+
 export interface AtomicityReport {
   commit: CommitInfo;
   isAtomic: boolean;
   score: number;
+  mode: AnalysisMode;
+  heuristics: { files: number; message: number };   // Heuristic scores, 0-1
   issues: string[];
   warnings: string[];
   suggestions: string[];
   llmAnalysis?: LLMAnalysis;
 }
 
+export type OutputFormat = 'text' | 'json' | 'junit' | 'sarif';
+
 export interface SplitPlan {
   reasoning: string;
   splits: Array<{
     message: string;
     diff: string;
     description: string;
+    hunkIds?: number[];       // Hunks in this split (hunk-level plans only)
   }>;
+  files?: ParsedFileDiff[];   // Parsed hunks the splits refer to, so the plan can be edited
 }
+
+export type SplitGranularity = 'hunk' | 'line';
+
+/**
+ * How split commits are created: by resetting and committing in the
+ * working tree, or with plumbing against a temporary index
+ */
+export type SplitExecutor = 'worktree' | 'index';
+
+/**
+ * How the split plan is made: by the LLM, or by grouping hunks with
+ * heuristics and no model call
+ */
+export type SplitStrategy = 'llm' | 'heuristic';
+
+export interface SplitOptions {
+  dryRun: boolean;
+  instruction?: string;
+  granularity: SplitGranularity;
+  verify?: string;      // Shell command that must pass on every split commit
+  executor: SplitExecutor;
+  strategy: SplitStrategy;
+  maxSplits?: number;   // Most commits the split may produce
+  planOut?: string;     // File to save the plan to
+  applyPlan?: string;   // Saved plan file to use instead of asking the LLM
+  trailers: string[];   // Trailer keys copied to every split commit
+  sign?: boolean | string;  // -S (optionally with a key ID) or --no-gpg-sign; default: commit.gpgsign
+}
+
+export interface RewordOptions {
+  dryRun: boolean;      // Show the new messages without rewriting anything
+  trailers: string[];   // Trailer keys kept from the original message
+  sign?: boolean | string;  // -S (optionally with a key ID) or --no-gpg-sign; default: commit.gpgsign
+}
+
+/**
+ * Identity, trailers and signing carried onto each split commit
+ */
+export interface CommitMetadata {
+  author?: { name: string; email: string; date: string };   // Original author (none for staged changes)
+  trailers: string[];       // "Key: value" lines added to every message
+  sign: boolean | string;   // GPG-sign, with a key ID if a string
+}
+
+/**
+ * Outcome of creating the split commits
+ */
+export type ApplyResult =
+  | { ok: true; commits: string[] }
+  | { ok: false; verifyFailed: false }
+  | { ok: false; verifyFailed: true; index: number; output: string };
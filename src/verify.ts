@@ -0,0 +1,42 @@
+/**
+ * Build/test verification of split commits
+ */
+
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runGit } from './git.js';
+
+export interface VerifyResult {
+  ok: boolean;
+  output: string;       // Combined stdout/stderr of the command
+}
+
+/**
+ * Run a shell command against a commit's tree, in a temporary detached worktree
+ * so the user's working directory is never touched
+ */
+export function verifyCommit(hash: string, command: string): VerifyResult {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-fission-verify-'));
+
+  const { ok: addOk, output: addOut } = runGit(['worktree', 'add', '--detach', tmpDir, hash]);
+  if (!addOk) {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    return { ok: false, output: `Could not create worktree: ${addOut}` };
+  }
+
+  try {
+    const result = spawnSync(command, {
+      cwd: tmpDir,
+      shell: true,
+      encoding: 'utf-8',
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    const output = [result.stdout, result.stderr, result.error?.message].filter(Boolean).join('\n').trim();
+    return { ok: result.status === 0, output };
+  } finally {
+    runGit(['worktree', 'remove', '--force', tmpDir]);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
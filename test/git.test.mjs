@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { git, makeRepo } from './helpers.mjs';
+import { parseDiffWithLines, buildPatchesWithFileTracking } from '../dist/git.js';
+
+/**
+ * Apply line-level patches in order on the parent of HEAD and return the
+ * resulting tree
+ */
+function applyInOrder(dir, patches) {
+  const index = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'git-fission-index-')), 'index');
+  const env = { ...process.env, GIT_INDEX_FILE: index };
+  execFileSync('git', ['read-tree', 'HEAD~1'], { cwd: dir, env });
+  for (const patch of patches) {
+    if (patch.diff) execFileSync('git', ['apply', '--cached'], { cwd: dir, env, input: patch.diff });
+  }
+  return execFileSync('git', ['write-tree'], { cwd: dir, env, encoding: 'utf-8' }).trim();
+}
+
+/**
+ * Split HEAD one changed line per commit and check the patches add up
+ */
+function checkLineSplit(dir) {
+  process.chdir(dir);
+  const parsed = parseDiffWithLines(git(dir, 'show', '--format=', 'HEAD') + '\n');
+  const commits = parsed.lines.map(line => ({ message: `line ${line.id}`, description: '', lineIds: [line.id] }));
+  const patches = buildPatchesWithFileTracking(parsed, commits, 'HEAD~1');
+  assert.equal(applyInOrder(dir, patches), git(dir, 'rev-parse', 'HEAD^{tree}'));
+  return patches;
+}
+
+test('line-level patches handle files without a final newline', () => {
+  const dir = makeRepo([{ 'nonl.txt': 'a\nb\nc' }, { 'nonl.txt': 'a\nB\nc\nd' }]);
+  const patches = checkLineSplit(dir);
+  assert.ok(patches.some(p => p.diff.includes('\\ No newline at end of file')));
+});
+
+test('line-level patches handle a final newline being added or removed', () => {
+  checkLineSplit(makeRepo([{ 'f.txt': 'a\nb' }, { 'f.txt': 'a\nb\n' }]));
+  checkLineSplit(makeRepo([{ 'f.txt': 'a\nb\n' }, { 'f.txt': 'a\nc' }]));
+});
+
+test('line-level patches handle a new file without a final newline', () => {
+  checkLineSplit(makeRepo([{ 'other.txt': 'x\n' }, { 'new.txt': 'one\ntwo' }]));
+});
@@ -0,0 +1,57 @@
+/**
+ * Shared helpers for the tests: throwaway git repositories and the CLI
+ */
+
+import { execFileSync, spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const CLI = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'dist', 'index.js');
+
+// User and environment config must not affect the commits the tests make
+const GIT_ENV = {
+  ...Object.fromEntries(Object.entries(process.env).filter(([key]) => !key.startsWith('GIT_CONFIG'))),
+  GIT_CONFIG_GLOBAL: '/dev/null',
+  GIT_CONFIG_NOSYSTEM: '1',
+  GIT_AUTHOR_NAME: 'Test', GIT_AUTHOR_EMAIL: 'test@example.com',
+  GIT_COMMITTER_NAME: 'Test', GIT_COMMITTER_EMAIL: 'test@example.com',
+};
+
+/**
+ * Run git in `cwd` and return its trimmed output
+ */
+export function git(cwd, ...args) {
+  return execFileSync('git', args, { cwd, env: GIT_ENV, encoding: 'utf-8' }).trim();
+}
+
+/**
+ * Create a repository with one commit per entry of `commits`, each a map
+ * of file path to content (null deletes the file)
+ */
+export function makeRepo(commits) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-fission-test-'));
+  git(dir, 'init', '-q', '-b', 'main');
+  commits.forEach((files, i) => {
+    for (const [file, content] of Object.entries(files)) {
+      const full = path.join(dir, file);
+      if (content === null) {
+        fs.rmSync(full);
+      } else {
+        fs.mkdirSync(path.dirname(full), { recursive: true });
+        fs.writeFileSync(full, content);
+      }
+    }
+    git(dir, 'add', '-A');
+    git(dir, 'commit', '-q', '-m', `commit ${i + 1}`);
+  });
+  return dir;
+}
+
+/**
+ * Run the CLI in `cwd`, feeding it `input` and then closing stdin
+ */
+export function runCli(cwd, args, input = '') {
+  return spawnSync('node', [CLI, ...args], { cwd, env: GIT_ENV, input, encoding: 'utf-8', timeout: 60_000 });
+}
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { git, makeRepo } from './helpers.mjs';
+import { generateHeuristicPlan } from '../dist/heuristic.js';
+
+/**
+ * Heuristic commit messages for the last commit of a new repository
+ */
+function messagesFor(commits) {
+  const dir = makeRepo(commits);
+  const diff = git(dir, 'show', '--format=', '--binary', '-M', 'HEAD') + '\n';
+  const plan = generateHeuristicPlan({ diff });
+  return plan.splits.map(split => split.message);
+}
+
+test('a new binary file is added, not updated', () => {
+  const messages = messagesFor([{ 'README.md': '# Project\n' }, { 'src/img.bin': Buffer.from([0, 1, 2, 255, 0, 7]) }]);
+  assert.deepEqual(messages, ['feat(src): Add img.bin']);
+});
+
+test('a new empty file is added', () => {
+  assert.deepEqual(messagesFor([{ 'README.md': '# Project\n' }, { 'src/empty.ts': '' }]), ['feat(src): Add empty.ts']);
+});
+
+test('a deleted file is removed, not updated', () => {
+  const messages = messagesFor([{ 'src/gone.ts': 'export const gone = 1;\n', 'src/kept.ts': 'export const kept = 1;\n' }, { 'src/gone.ts': null }]);
+  assert.deepEqual(messages, ['refactor(src): Remove gone.ts']);
+});
+
+test('deleted docs are removed', () => {
+  assert.deepEqual(messagesFor([{ 'docs/old.md': '# Old\n', 'README.md': '# P\n' }, { 'docs/old.md': null }]), ['docs: Remove old.md']);
+});
+
+test('a modified file is updated', () => {
+  const messages = messagesFor([{ 'src/app.ts': 'export const app = 1;\n' }, { 'src/app.ts': 'export const app = 2;\n' }]);
+  assert.deepEqual(messages, ['refactor(src): Update app.ts']);
+});
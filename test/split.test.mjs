@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { git, makeRepo, runCli } from './helpers.mjs';
+
+/**
+ * A commit the heuristic strategy splits in two: source and docs
+ */
+function twoGroupRepo() {
+  return makeRepo([
+    { 'README.md': '# Project\n' },
+    { 'src/app.ts': 'export const app = 1;\n', 'docs/guide.md': '# Guide\n' },
+  ]);
+}
+
+for (const executor of ['worktree', 'index']) {
+  test(`closing stdin at the verify prompt restores the original (${executor} executor)`, () => {
+    const dir = twoGroupRepo();
+    const head = git(dir, 'rev-parse', 'HEAD');
+
+    // Confirm the plan, then stdin closes while the verify prompt waits
+    const result = runCli(dir, ['--split', 'HEAD', '--strategy', 'heuristic', '--executor', executor, '--verify', 'false'], 'y\n');
+
+    assert.notEqual(result.status, 0, result.stdout);
+    assert.match(result.stdout, /input closed/);
+    assert.equal(git(dir, 'rev-parse', 'HEAD'), head);
+    assert.equal(git(dir, 'status', '--porcelain'), '');
+  });
+}
+
+test('closing stdin at the confirmation prompt changes nothing', () => {
+  const dir = twoGroupRepo();
+  const head = git(dir, 'rev-parse', 'HEAD');
+  const result = runCli(dir, ['--split', 'HEAD', '--strategy', 'heuristic']);
+  assert.notEqual(result.status, 0, result.stdout);
+  assert.equal(git(dir, 'rev-parse', 'HEAD'), head);
+});
+
+test('closing stdin at the remainder prompt restores the original', () => {
+  const dir = twoGroupRepo();
+  const head = git(dir, 'rev-parse', 'HEAD');
+
+  // A hook that adds a file makes the split commits differ from the original
+  const hook = path.join(dir, '.git', 'hooks', 'pre-commit');
+  fs.writeFileSync(hook, '#!/bin/sh\necho extra > extra.txt\ngit add extra.txt\n', { mode: 0o755 });
+
+  const result = runCli(dir, ['--split', 'HEAD', '--strategy', 'heuristic'], 'y\n');
+  assert.notEqual(result.status, 0, result.stdout);
+  assert.match(result.stdout, /input closed\); restoring the original/);
+  assert.equal(git(dir, 'rev-parse', 'HEAD'), head);
+});